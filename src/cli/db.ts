@@ -0,0 +1,285 @@
+/**
+ * Database CLI Actions
+ * Handles the db subcommands for maintaining the transcode database
+ */
+
+import { extname } from '@std/path';
+import { loadConfig } from '../transcode/config.ts';
+import {
+  exportDatabase,
+  loadDatabase,
+  loadDatabaseReadOnly,
+  saveDatabase,
+} from '../transcode/database.ts';
+import {
+  csvToRecords,
+  type DatabaseImport,
+  getSavingsBreakdown,
+  importDatabase,
+  pruneDatabase,
+  recordsToCsv,
+  type SavingsGroup,
+  verifyDatabase,
+} from '../transcode/maintenance.ts';
+import { DATABASE_VERSION, getPendingMigrations, runMigrations } from '../transcode/migrations.ts';
+import { readSnapshot } from '../transcode/store.ts';
+import { acquireLock, releaseLock } from '../transcode/process.ts';
+import { createLogger, type LogLevel, setGlobalLogger } from '../shared/logger.ts';
+import { formatBytes } from '../shared/format.ts';
+import type { Config, TranscodeDatabase, TranscodeRecord } from '../transcode/types.ts';
+
+/** Options shared by the db commands */
+export interface DbOptions {
+  config?: string;
+  dryRun?: boolean;
+  verbose?: boolean;
+  quiet?: boolean;
+  logLevel?: string;
+}
+
+/** Options for db verify */
+export interface DbVerifyOptions extends DbOptions {
+  /** False with --no-probe: check sizes only */
+  probe?: boolean;
+}
+
+/** Options for db export and db import */
+export interface DbTransferOptions extends DbOptions {
+  format?: 'json' | 'csv';
+  merge?: boolean;
+}
+
+/** Options for db stats */
+export interface DbStatsOptions extends DbOptions {
+  limit?: number;
+}
+
+/**
+ * Set up logging and load the configuration, exiting on failure
+ */
+async function setupDbCommand(
+  options: DbOptions,
+): Promise<{ config: Config; logger: ReturnType<typeof createLogger> }> {
+  const logLevel: LogLevel = options.quiet ? 'error' : options.verbose ? 'debug' : ((options.logLevel as LogLevel) || 'info');
+  const logger = createLogger({ level: logLevel });
+  setGlobalLogger(logger);
+
+  try {
+    const config = await loadConfig(options.config);
+    if (options.dryRun) {
+      config.dryRun = true;
+    }
+    return { config, logger };
+  } catch (error) {
+    logger.error('Failed to load configuration:', error);
+    Deno.exit(1);
+  }
+}
+
+/**
+ * Run a command that changes the database while holding the process lock,
+ * saving the database afterwards unless it is a dry run
+ */
+async function withLockedDatabase(
+  config: Config,
+  logger: ReturnType<typeof createLogger>,
+  run: (db: TranscodeDatabase) => Promise<void>,
+): Promise<void> {
+  if (!await acquireLock(config)) {
+    logger.error('Another instance is already running');
+    Deno.exit(1);
+  }
+
+  try {
+    const db = await loadDatabase(config);
+    await run(db);
+    if (!config.dryRun) {
+      await saveDatabase(config, db);
+    }
+  } catch (error) {
+    logger.error('Fatal error:', error);
+    await releaseLock(config);
+    Deno.exit(1);
+  }
+
+  await releaseLock(config);
+}
+
+/**
+ * Pick the export format from the option or the file extension
+ */
+function getTransferFormat(options: DbTransferOptions, path: string): 'json' | 'csv' {
+  return options.format ?? (extname(path).toLowerCase() === '.csv' ? 'csv' : 'json');
+}
+
+/** db prune action handler */
+export async function dbPruneAction(options: DbOptions): Promise<void> {
+  const { config, logger } = await setupDbCommand(options);
+
+  await withLockedDatabase(config, logger, async (db) => {
+    const report = await pruneDatabase(config, db);
+    const verb = config.dryRun ? 'Would prune' : 'Pruned';
+    logger.info(
+      `${verb} ${report.records} records, ${report.errors} error records and ` +
+        `${report.calibrations} calibrations for missing files` +
+        (report.relinked > 0 ? `, relinked ${report.relinked} moved files` : '') +
+        (report.quarantined > 0 ? ` (${report.quarantined} kept with quarantined originals)` : ''),
+    );
+    if (report.unavailableDirs.length > 0) {
+      logger.warn(
+        `Skipped ${report.unavailableDirs.length} missing or empty media directories; ` +
+          'mount them and prune again',
+      );
+    }
+  });
+}
+
+/** db verify action handler */
+export async function dbVerifyAction(options: DbVerifyOptions): Promise<void> {
+  const { config, logger } = await setupDbCommand(options);
+
+  let problems = 0;
+  try {
+    const db = await loadDatabaseReadOnly(config);
+    const report = await verifyDatabase(config, db, { probe: options.probe !== false });
+
+    for (const { path, problem, detail } of report.problems) {
+      console.log(`  ✗ ${path} [${problem}: ${detail}]`);
+    }
+    problems = report.problems.length;
+    logger.info(`Verified ${report.checked} records, ${problems} problems`);
+  } catch (error) {
+    logger.error('Fatal error:', error);
+    Deno.exit(1);
+  }
+
+  if (problems > 0) {
+    Deno.exit(1);
+  }
+}
+
+/** db export action handler */
+export async function dbExportAction(options: DbTransferOptions, path: string): Promise<void> {
+  const { config, logger } = await setupDbCommand(options);
+
+  try {
+    const db = await loadDatabaseReadOnly(config);
+    if (getTransferFormat(options, path) === 'csv') {
+      await Deno.writeTextFile(path, recordsToCsv(db));
+      logger.info(`Exported ${Object.keys(db.records).length} records to ${path}`);
+    } else {
+      await exportDatabase(db, path);
+    }
+  } catch (error) {
+    logger.error('Fatal error:', error);
+    Deno.exit(1);
+  }
+}
+
+/**
+ * Read an export file; JSON exports from older versions are migrated first
+ */
+async function readImport(path: string, format: 'json' | 'csv'): Promise<DatabaseImport> {
+  if (format === 'csv') {
+    const records: Record<string, TranscodeRecord> = {};
+    for (const record of csvToRecords(await Deno.readTextFile(path))) {
+      records[record.originalPath] = record;
+    }
+    return { records };
+  }
+
+  const imported = await readSnapshot(path);
+  if (!imported || typeof imported.records !== 'object') {
+    throw new Error(`Not a database export: ${path}`);
+  }
+  runMigrations(imported);
+  return {
+    records: imported.records,
+    errors: imported.errors,
+    calibrations: imported.calibrations,
+  };
+}
+
+/** db import action handler */
+export async function dbImportAction(options: DbTransferOptions, path: string): Promise<void> {
+  const { config, logger } = await setupDbCommand(options);
+
+  await withLockedDatabase(config, logger, async (db) => {
+    const imported = await readImport(path, getTransferFormat(options, path));
+    const result = importDatabase(db, imported, options.merge === true);
+    const verb = config.dryRun ? 'Would import' : 'Imported';
+    logger.info(
+      `${verb} ${path}${options.merge ? ' (merged)' : ''}: ${result.added} added, ` +
+        `${result.updated} updated, ${result.skipped} kept (newer in database)`,
+    );
+  });
+}
+
+/** db migrate action handler */
+export async function dbMigrateAction(options: DbOptions): Promise<void> {
+  const { config, logger } = await setupDbCommand(options);
+
+  try {
+    const snapshot = await readSnapshot(config.databasePath);
+    const version = snapshot?.version ?? DATABASE_VERSION;
+    const pending = getPendingMigrations(version);
+
+    logger.info(`Database version ${version}, current version ${DATABASE_VERSION}`);
+    if (pending.length === 0) {
+      logger.info('Database is up to date');
+      return;
+    }
+    for (const migration of pending) {
+      console.log(`  v${migration.version}: ${migration.description}`);
+    }
+    if (config.dryRun) {
+      logger.info(`Dry run - would apply ${pending.length} migrations`);
+      return;
+    }
+  } catch (error) {
+    logger.error('Fatal error:', error);
+    Deno.exit(1);
+  }
+
+  // Loading runs the migrations and rewrites the snapshot
+  await withLockedDatabase(config, logger, async () => {});
+}
+
+/**
+ * Print one breakdown table, largest savings first
+ */
+function printSavingsTable(title: string, groups: Record<string, SavingsGroup>, limit: number) {
+  const rows = Object.entries(groups)
+    .map(([name, group]) => ({ name, ...group, saved: group.originalSize - group.newSize }))
+    .sort((a, b) => b.saved - a.saved);
+
+  console.log(`\n${title}:`);
+  for (const row of rows.slice(0, limit)) {
+    const percent = row.originalSize > 0 ? Math.round((row.saved / row.originalSize) * 100) : 0;
+    console.log(
+      `  ${formatBytes(row.saved).padStart(10)} ${`${percent}%`.padStart(4)} ` +
+        `${String(row.count).padStart(6)} files | ${row.name}`,
+    );
+  }
+  if (rows.length > limit) {
+    console.log(`  ... and ${rows.length - limit} more`);
+  }
+}
+
+/** db stats action handler */
+export async function dbStatsAction(options: DbStatsOptions): Promise<void> {
+  const { config, logger } = await setupDbCommand(options);
+
+  try {
+    const db = await loadDatabaseReadOnly(config);
+    const breakdown = getSavingsBreakdown(db, config);
+    const limit = options.limit ?? 20;
+
+    printSavingsTable('By directory', breakdown.byDirectory, limit);
+    printSavingsTable('By type', breakdown.byType, limit);
+    printSavingsTable('By source codec', breakdown.byCodec, limit);
+  } catch (error) {
+    logger.error('Fatal error:', error);
+    Deno.exit(1);
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Inspect CLI Actions
+ * Handles the probe and explain commands for looking at a single file
+ */
+
+import { resolve } from '@std/path';
+import { loadConfig } from '../transcode/config.ts';
+import { loadDatabaseReadOnly } from '../transcode/database.ts';
+import {
+  formatBitrate,
+  parseFrameRate,
+  probeMediaFile,
+  type ProbeResult,
+} from '../transcode/ffprobe.ts';
+import { explainFile, type FileExplanation } from '../transcode/explain.ts';
+import { resolveEncoder } from '../transcode/encoders.ts';
+import { createLogger, type LogLevel, setGlobalLogger } from '../shared/logger.ts';
+import { formatBytes, formatDuration } from '../shared/format.ts';
+import type { Config, StreamInfo } from '../transcode/types.ts';
+
+/** Options for the probe and explain commands */
+export interface InspectOptions {
+  config?: string;
+  verbose?: boolean;
+  quiet?: boolean;
+  logLevel?: string;
+  json?: boolean;
+}
+
+/**
+ * Set up logging and load the configuration, exiting on failure
+ * JSON output keeps the log down to errors so stdout stays parseable
+ */
+async function setupInspectCommand(
+  options: InspectOptions,
+): Promise<{ config: Config; logger: ReturnType<typeof createLogger> }> {
+  const logLevel: LogLevel = options.quiet || options.json ? 'error' : options.verbose ? 'debug' : ((options.logLevel as LogLevel) || 'info');
+  const logger = createLogger({ level: logLevel });
+  setGlobalLogger(logger);
+
+  try {
+    return { config: await loadConfig(options.config), logger };
+  } catch (error) {
+    logger.error('Failed to load configuration:', error);
+    Deno.exit(1);
+  }
+}
+
+/**
+ * Describe a stream on one line
+ */
+function describeStream(stream: StreamInfo): string {
+  const parts = [`#${stream.index}`, stream.codecType.padEnd(10), stream.codecName];
+  if (stream.profile) {
+    parts.push(`(${stream.profile})`);
+  }
+  if (stream.width && stream.height) {
+    parts.push(`${stream.width}x${stream.height}`);
+  }
+  if (stream.channels) {
+    parts.push(`${stream.channels}ch`);
+  }
+  if (stream.bitrate) {
+    parts.push(formatBitrate(stream.bitrate));
+  }
+  if (stream.language) {
+    parts.push(stream.language);
+  }
+  if (stream.title) {
+    parts.push(`"${stream.title}"`);
+  }
+  if (stream.filename) {
+    parts.push(`${stream.filename} (${stream.mimetype ?? 'unknown type'})`);
+  }
+  if (stream.disposition.length > 0) {
+    parts.push(`[${stream.disposition.join(', ')}]`);
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Print a probe result for reading
+ */
+function printProbe(probe: ProbeResult): void {
+  console.log(probe.path);
+  const size = formatBytes(probe.fileSize);
+  console.log(`  Format: ${probe.formatName}, ${size}, ${formatDuration(probe.duration)}`);
+
+  if (probe.video) {
+    const { codec_name, width, height, pix_fmt, bit_rate, r_frame_rate } = probe.video;
+    const parts = [`${codec_name} ${width}x${height}`];
+    const frameRate = parseFrameRate(r_frame_rate);
+    if (frameRate) {
+      parts.push(`${frameRate.toFixed(3).replace(/\.?0+$/, '')} fps`);
+    }
+    if (bit_rate) {
+      parts.push(formatBitrate(parseInt(bit_rate, 10)));
+    }
+    if (pix_fmt) {
+      parts.push(pix_fmt);
+    }
+    console.log(`  Video: ${parts.join(', ')}`);
+  } else {
+    console.log('  Video: none');
+  }
+
+  if (probe.color) {
+    const { bitDepth, hdrFormat, colorTransfer, colorPrimaries, dolbyVisionProfile } = probe.color;
+    console.log(
+      `  Color: ${bitDepth}-bit ${hdrFormat ?? 'SDR'}` +
+        (colorTransfer ? `, ${colorTransfer}` : '') +
+        (colorPrimaries ? `/${colorPrimaries}` : '') +
+        (dolbyVisionProfile !== undefined ? `, Dolby Vision profile ${dolbyVisionProfile}` : ''),
+    );
+  }
+
+  console.log(
+    `  Streams: ${probe.streams.length} (${probe.audioStreamCount} audio, ` +
+      `${probe.subtitleStreamCount} subtitle)`,
+  );
+  for (const stream of probe.streams) {
+    console.log(`    ${describeStream(stream)}`);
+  }
+}
+
+/**
+ * Print an explanation for reading
+ */
+function printExplanation(explanation: FileExplanation, config: Config): void {
+  console.log(explanation.path);
+  const width = Math.max(...explanation.steps.map((step) => step.check.length), 0);
+  for (const { check, result } of explanation.steps) {
+    console.log(`  ${check.padEnd(width)}  ${result}`);
+  }
+
+  const verdict = {
+    excluded: 'Excluded',
+    skipped: 'Skipped',
+    transcode: 'Transcode',
+    error: 'Error',
+  }[explanation.decision];
+  console.log(`  → ${verdict}: ${explanation.reason}`);
+
+  if (explanation.ffmpegArgs) {
+    const quoted = explanation.ffmpegArgs.map((arg) => /[\s'"]/.test(arg) ? `'${arg}'` : arg);
+    console.log(`\n  ${config.ffmpegPath} ${quoted.join(' ')}`);
+  }
+}
+
+/** probe action handler */
+export async function probeAction(options: InspectOptions, path: string): Promise<void> {
+  const { config, logger } = await setupInspectCommand(options);
+
+  let probe: ProbeResult;
+  try {
+    probe = await probeMediaFile(config, resolve(path));
+  } catch (error) {
+    logger.error(`Failed to probe ${path}:`, error);
+    Deno.exit(1);
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(probe, null, 2));
+  } else {
+    printProbe(probe);
+  }
+}
+
+/** explain action handler */
+export async function explainAction(options: InspectOptions, path: string): Promise<void> {
+  const { config, logger } = await setupInspectCommand(options);
+
+  // Without a usable encoder the arguments show the fallback backend
+  try {
+    await resolveEncoder(config);
+  } catch (error) {
+    logger.warn('No usable encoder, showing arguments for the fallback:', error);
+  }
+
+  let explanation: FileExplanation;
+  try {
+    const db = await loadDatabaseReadOnly(config);
+    explanation = await explainFile(resolve(path), config, db);
+  } catch (error) {
+    logger.error('Fatal error:', error);
+    Deno.exit(1);
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(explanation, null, 2));
+  } else {
+    printExplanation(explanation, config);
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * Queue CLI Actions
+ * Handles the queue subcommands for inspecting and reordering the job queue
+ */
+
+import { resolve } from '@std/path';
+import { loadConfig } from '../transcode/config.ts';
+import { loadDatabase, saveDatabase } from '../transcode/database.ts';
+import { analyzeFile, checkEncodeSavings, isVideoFile } from '../transcode/scanner.ts';
+import { getPredictionCorrection } from '../transcode/prediction.ts';
+import {
+  enqueueJob,
+  findActiveJob,
+  getStaleJobReason,
+  isActiveJob,
+  type JobQueue,
+  loadQueue,
+  moveJob,
+  removeJob,
+  saveQueue,
+} from '../transcode/queue.ts';
+import { acquireLock, releaseLock } from '../transcode/process.ts';
+import { pathExists } from '../shared/files.ts';
+import { createLogger, type LogLevel, setGlobalLogger } from '../shared/logger.ts';
+import { formatBytes } from '../shared/format.ts';
+import type { Config } from '../transcode/types.ts';
+
+/** Options shared by the queue commands */
+export interface QueueOptions {
+  config?: string;
+  dryRun?: boolean;
+  verbose?: boolean;
+  quiet?: boolean;
+  logLevel?: string;
+}
+
+/** Options for queue list */
+export interface QueueListOptions extends QueueOptions {
+  all?: boolean;
+}
+
+/**
+ * Set up logging and load the configuration, exiting on failure
+ */
+async function setupQueueCommand(
+  options: QueueOptions,
+): Promise<{ config: Config; logger: ReturnType<typeof createLogger> }> {
+  const logLevel: LogLevel = options.quiet ? 'error' : options.verbose ? 'debug' : ((options.logLevel as LogLevel) || 'info');
+  const logger = createLogger({ level: logLevel });
+  setGlobalLogger(logger);
+
+  try {
+    const config = await loadConfig(options.config);
+    if (options.dryRun) {
+      config.dryRun = true;
+    }
+    return { config, logger };
+  } catch (error) {
+    logger.error('Failed to load configuration:', error);
+    Deno.exit(1);
+  }
+}
+
+/**
+ * Run a command that changes the queue while holding the process lock, so a
+ * running transcode doesn't overwrite it; saves the queue unless it is a dry run
+ * The command returns false to exit with an error
+ */
+async function withLockedQueue(
+  config: Config,
+  logger: ReturnType<typeof createLogger>,
+  run: (queue: JobQueue) => Promise<boolean>,
+): Promise<void> {
+  if (!await acquireLock(config)) {
+    logger.error('A transcode is running; stop it before changing the queue');
+    Deno.exit(1);
+  }
+
+  let ok: boolean;
+  try {
+    const queue = await loadQueue(config);
+    ok = await run(queue);
+    if (ok && !config.dryRun) {
+      await saveQueue(config, queue);
+    }
+  } catch (error) {
+    logger.error('Fatal error:', error);
+    await releaseLock(config);
+    Deno.exit(1);
+  }
+
+  await releaseLock(config);
+  if (!ok) {
+    Deno.exit(1);
+  }
+}
+
+/** queue list action handler */
+export async function queueListAction(options: QueueListOptions): Promise<void> {
+  const { config, logger } = await setupQueueCommand(options);
+
+  let queue: JobQueue;
+  try {
+    queue = await loadQueue(config);
+  } catch (error) {
+    logger.error('Failed to load the queue:', error);
+    Deno.exit(1);
+  }
+
+  const active = queue.jobs.filter(isActiveJob);
+  if (active.length === 0) {
+    logger.info('The queue is empty');
+  }
+
+  for (const [i, job] of active.entries()) {
+    console.log(
+      `${String(i + 1).padStart(3)} ${formatBytes(job.file.size).padStart(10)} | ${job.file.path}` +
+        (job.manual ? ' (added)' : ''),
+    );
+  }
+
+  if (options.all) {
+    const finished = queue.jobs.filter((job) => !isActiveJob(job));
+    if (finished.length > 0) {
+      console.log('\nFinished:');
+    }
+    for (const job of finished) {
+      console.log(
+        `  ${job.status.padEnd(11)} ${job.file.path}` + (job.error ? ` [${job.error}]` : ''),
+      );
+    }
+  }
+
+  const total = active.reduce((sum, job) => sum + job.file.size, 0);
+  logger.info(`${active.length} jobs queued (${formatBytes(total)})`);
+}
+
+/** queue move action handler */
+export async function queueMoveAction(
+  options: QueueOptions,
+  path: string,
+  position: number,
+): Promise<void> {
+  const { config, logger } = await setupQueueCommand(options);
+  const filePath = resolve(path);
+
+  await withLockedQueue(config, logger, (queue) => {
+    if (!moveJob(queue, filePath, position)) {
+      logger.error(`Not waiting in the queue: ${filePath}`);
+      return Promise.resolve(false);
+    }
+    logger.info(`Moved ${filePath} to position ${position}`);
+    return Promise.resolve(true);
+  });
+}
+
+/** queue remove action handler */
+export async function queueRemoveAction(options: QueueOptions, path: string): Promise<void> {
+  const { config, logger } = await setupQueueCommand(options);
+  const filePath = resolve(path);
+
+  await withLockedQueue(config, logger, (queue) => {
+    if (!removeJob(queue, filePath)) {
+      logger.error(`Not waiting in the queue: ${filePath}`);
+      return Promise.resolve(false);
+    }
+    logger.info(`Removed ${filePath} from the queue`);
+    return Promise.resolve(true);
+  });
+}
+
+/** queue add action handler */
+export async function queueAddAction(options: QueueOptions, path: string): Promise<void> {
+  const { config, logger } = await setupQueueCommand(options);
+  const filePath = resolve(path);
+
+  if (!await pathExists(filePath)) {
+    logger.error(`File not found: ${filePath}`);
+    Deno.exit(1);
+  }
+  if (!isVideoFile(filePath, config)) {
+    logger.error(`Not a video file: ${filePath}`);
+    Deno.exit(1);
+  }
+
+  await withLockedQueue(config, logger, async (queue) => {
+    const analysis = await analyzeFile(filePath, config);
+    if (!analysis.file) {
+      logger.error(`Failed to analyze ${filePath}: ${analysis.error ?? 'unknown error'}`);
+      return false;
+    }
+    const db = await loadDatabase(config);
+    if (analysis.file.needsTranscode) {
+      await checkEncodeSavings(analysis.file, config, db, getPredictionCorrection(db));
+      // Keeps the calibration for the transcode
+      if (!config.dryRun) {
+        await saveDatabase(config, db);
+      }
+    }
+    if (!analysis.file.needsTranscode) {
+      logger.error(
+        `Not queued, ${filePath} needs no transcode: ` +
+          (analysis.file.skipReason ?? analysis.skipReason ?? 'already efficient'),
+      );
+      return false;
+    }
+
+    const queued = findActiveJob(queue, filePath);
+    if (queued) {
+      // Already waiting: bring it to the front instead
+      moveJob(queue, filePath, 1);
+      queued.manual = true;
+      logger.info(`Moved to the front of the queue: ${filePath}`);
+      return true;
+    }
+
+    const job = enqueueJob(queue, analysis.file, true);
+    if (!job) {
+      return false;
+    }
+
+    const staleReason = await getStaleJobReason(job, db, config);
+    if (staleReason) {
+      logger.error(`Not queued, ${filePath}: ${staleReason}`);
+      return false;
+    }
+
+    job.manual = true;
+    logger.info(`Queued next: ${filePath}`);
+    return true;
+  });
+}
@@ -4,6 +4,7 @@
  */
 
 import { loadConfig } from '../transcode/config.ts';
+import { resolveEncoder } from '../transcode/encoders.ts';
 import { createLogger, type LogLevel, setGlobalLogger } from '../shared/logger.ts';
 import { loadSyncConfig, runSync, runBackfill } from '../sync/main.ts';
 
@@ -69,6 +70,7 @@ export async function syncAction(options: SyncOptions): Promise<void> {
 
     // Load transcoder config
     const transcoderConfig = await loadConfig(options.config);
+    await resolveEncoder(transcoderConfig);
 
     // Run sync
     await runSync(syncConfig, transcoderConfig);
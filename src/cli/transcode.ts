@@ -3,27 +3,88 @@
  * Handles the transcode subcommand for in-place media conversion
  */
 
+import { basename, resolve } from '@std/path';
 import { loadConfig, validateConfig } from '../transcode/config.ts';
+import { findConfigFile } from '../shared/config.ts';
 import {
   addErrorRecord,
+  addInterruptedRecord,
   addTranscodeRecord,
   getDatabaseStats,
   loadDatabase,
   saveDatabase,
   saveErrorLog,
 } from '../transcode/database.ts';
-import { scanMediaDirectories, summarizeByType } from '../transcode/scanner.ts';
-import { estimateTranscodeTime, transcodeFile } from '../transcode/transcoder.ts';
+import {
+  type DiscoveredFile,
+  scanMediaDirectories,
+  summarizeByType,
+} from '../transcode/scanner.ts';
+import { reconcileDatabase } from '../transcode/fingerprint.ts';
+import { explainFile } from '../transcode/explain.ts';
+import { estimateJobCost, transcodeFile } from '../transcode/transcoder.ts';
+import { findRestorableRecords, pruneQuarantine, restoreFromQuarantine } from '../transcode/quarantine.ts';
+import { runStartupRecovery } from '../transcode/journal.ts';
+import { estimateFile, orderFiles } from '../transcode/ordering.ts';
+import { ResourceGovernor } from '../transcode/governor.ts';
+import {
+  getNextWindowStart,
+  getStopReason,
+  isWithinSchedule,
+  type RunBudget,
+} from '../transcode/schedule.ts';
+import {
+  countPendingJobs,
+  enqueueJob,
+  finishJob,
+  getPendingJobs,
+  getStaleJobReason,
+  type JobQueue,
+  loadQueue,
+  mergeScanIntoQueue,
+  saveQueue,
+  startJob,
+  takeNextJob,
+} from '../transcode/queue.ts';
+import {
+  analyzeSettledFile,
+  type PendingFiles,
+  takeStableFiles,
+  watchMediaDirectories,
+} from '../transcode/watch.ts';
+import { resolveEncoder } from '../transcode/encoders.ts';
+import { applyQualityCalibration, checkQualityMetric } from '../transcode/quality.ts';
+import {
+  getPredictedSize,
+  getPredictionCorrection,
+  type PredictionCorrection,
+} from '../transcode/prediction.ts';
 import {
   acquireLock,
   checkDependencies,
+  getProcessRegistry,
   releaseLock,
-  runWithConcurrency,
   setupSignalHandlers,
 } from '../transcode/process.ts';
+import { runWithCapacity, WeightedScheduler } from '../shared/process.ts';
 import { createLogger, type LogLevel, setGlobalLogger } from '../shared/logger.ts';
-import { formatDuration, formatBytes as formatFileSize } from '../shared/format.ts';
-import type { Config, MediaFile, TranscodeStats } from '../transcode/types.ts';
+import {
+  formatDuration,
+  formatBytes as formatFileSize,
+  parseBytes,
+  parseDuration,
+} from '../shared/format.ts';
+import type {
+  Config,
+  MediaFile,
+  OrderStrategy,
+  TranscodeDatabase,
+  TranscodeJob,
+  TranscodeStats,
+} from '../transcode/types.ts';
+
+/** How often watch mode checks pending files, the queue and the config file */
+const WATCH_POLL_MS = 5000;
 
 /** Options for the transcode command */
 export interface TranscodeOptions {
@@ -36,6 +97,32 @@ export interface TranscodeOptions {
   concurrency?: number;
   clearErrors?: boolean;
   listErrors?: boolean;
+  watch?: boolean;
+  maxRuntime?: string;
+  maxFiles?: number;
+  maxBytesSaved?: string;
+  order?: OrderStrategy;
+  resume?: boolean;
+}
+
+/** Options for the transcode file command */
+export interface TranscodeFileOptions {
+  config?: string;
+  dryRun?: boolean;
+  verbose?: boolean;
+  quiet?: boolean;
+  logLevel?: string;
+  concurrency?: number;
+}
+
+/** Options for the transcode restore command */
+export interface RestoreOptions {
+  config?: string;
+  dryRun?: boolean;
+  verbose?: boolean;
+  quiet?: boolean;
+  logLevel?: string;
+  since?: string;
 }
 
 /** Transcode action handler */
@@ -47,23 +134,113 @@ export async function transcodeAction(options: TranscodeOptions): Promise<void>
 
   logger.info('danger-transcode starting...');
 
-  // Load configuration
-  let config: Config;
+  const config = await loadTranscodeConfig(options, logger);
+  if (options.watch && config.dryRun) {
+    logger.error('--watch cannot be combined with --dry-run');
+    Deno.exit(1);
+  }
+
+  // Budgets for this run
+  let budget: RunBudget;
   try {
-    config = await loadConfig(options.config);
+    budget = {
+      maxRuntimeSeconds: options.maxRuntime ? parseDuration(options.maxRuntime) : undefined,
+      maxFiles: options.maxFiles,
+      maxBytesSaved: options.maxBytesSaved ? parseBytes(options.maxBytesSaved) : undefined,
+    };
+  } catch (error) {
+    logger.error('Invalid run budget:', error);
+    Deno.exit(1);
+  }
 
-    // CLI overrides
-    if (options.mediaDirs) {
-      config.mediaDirs = options.mediaDirs.split(',').map((d) => d.trim());
+  await prepareEncoder(config, logger);
+  logger.debug('Configuration loaded:', config);
+
+  // Acquire lock (singleton execution)
+  if (!await acquireLock(config)) {
+    logger.error('Another instance is already running');
+    Deno.exit(1);
+  }
+  const session = setupCleanup(config, logger);
+
+  try {
+    // Load database
+    const db = session.db = await loadDatabase(config);
+
+    // Repair replacements interrupted by a crash and remove orphaned temp files
+    await runStartupRecovery(config, db);
+    await saveDatabase(config, db);
+
+    // Handle special commands
+    if (options.listErrors) {
+      await handleListErrors(db, logger, config);
+      return;
     }
-    if (options.concurrency !== undefined) {
-      config.maxConcurrency = options.concurrency;
+
+    if (options.clearErrors) {
+      await handleClearErrors(db, logger, config);
+      return;
     }
-    if (options.dryRun) {
-      config.dryRun = true;
+
+    // Run main transcode workflow
+    if (options.watch) {
+      await runWatchMode(config, db, logger, options);
+    } else {
+      await runTranscodeWorkflow(config, db, logger, budget, options.resume === true);
     }
+  } catch (error) {
+    logger.error('Fatal error:', error);
+    await releaseLock(config);
+    Deno.exit(1);
+  }
+
+  await releaseLock(config);
+}
+
+/** Transcode file action handler */
+export async function transcodeFilesAction(
+  options: TranscodeFileOptions,
+  ...paths: string[]
+): Promise<void> {
+  // Setup logger
+  const logLevel: LogLevel = options.quiet ? 'error' : options.verbose ? 'debug' : ((options.logLevel as LogLevel) || 'info');
+  const logger = createLogger({ level: logLevel });
+  setGlobalLogger(logger);
+
+  const config = await loadTranscodeConfig(options, logger);
+  await prepareEncoder(config, logger);
+
+  if (!await acquireLock(config)) {
+    logger.error('Another instance is already running');
+    Deno.exit(1);
+  }
+  const session = setupCleanup(config, logger);
+
+  try {
+    const db = session.db = await loadDatabase(config);
+    await runStartupRecovery(config, db);
+    await saveDatabase(config, db);
+    await runFileTranscodes(config, db, logger, paths.map((path) => resolve(path)));
+  } catch (error) {
+    logger.error('Fatal error:', error);
+    await releaseLock(config);
+    Deno.exit(1);
+  }
+
+  await releaseLock(config);
+}
+
+/**
+ * Load, override and validate the configuration, exiting on failure
+ */
+async function loadTranscodeConfig(
+  options: TranscodeOptions,
+  logger: ReturnType<typeof createLogger>
+): Promise<Config> {
+  try {
+    const config = await loadConfig(options.config);
+    applyCliOverrides(config, options);
 
-    // Validate config
     const errors = validateConfig(config);
     if (errors.length > 0) {
       for (const error of errors) {
@@ -71,12 +248,21 @@ export async function transcodeAction(options: TranscodeOptions): Promise<void>
       }
       Deno.exit(1);
     }
+    return config;
   } catch (error) {
     logger.error('Failed to load configuration:', error);
     Deno.exit(1);
   }
+}
 
-  // Check dependencies
+/**
+ * Check for FFmpeg, pick the encoder backend and check quality mode, exiting
+ * when transcoding isn't possible
+ */
+async function prepareEncoder(
+  config: Config,
+  logger: ReturnType<typeof createLogger>
+): Promise<void> {
   const deps = await checkDependencies(config);
   if (!deps.ffmpeg) {
     logger.error(`ffmpeg not found at: ${config.ffmpegPath}`);
@@ -87,41 +273,136 @@ export async function transcodeAction(options: TranscodeOptions): Promise<void>
     Deno.exit(1);
   }
 
-  logger.debug('Configuration loaded:', config);
-
-  // Acquire lock (singleton execution)
-  if (!await acquireLock(config)) {
-    logger.error('Another instance is already running');
+  // Pick the encoder backend for this machine
+  try {
+    await resolveEncoder(config);
+  } catch (error) {
+    logger.error('No usable encoder:', error);
     Deno.exit(1);
   }
 
-  // Setup cleanup handler
+  if (config.quality.enabled) {
+    const reason = await checkQualityMetric(config);
+    if (reason) {
+      logger.warn(`Quality mode disabled: ${reason}`);
+      config.quality.enabled = false;
+    }
+  }
+}
+
+/**
+ * Install the signal handlers: stop running FFmpeg processes and persist the
+ * database once it is loaded into the returned session
+ */
+function setupCleanup(
+  config: Config,
+  logger: ReturnType<typeof createLogger>
+): { db: TranscodeDatabase | null } {
+  const session: { db: TranscodeDatabase | null } = { db: null };
   let isShuttingDown = false;
-  const cleanup = (): Promise<void> => {
-    if (isShuttingDown) return Promise.resolve();
+  const cleanup = async (): Promise<void> => {
+    if (isShuttingDown) return;
     isShuttingDown = true;
+    logger.progressEnd();
     logger.info('Cleaning up...');
-    return Promise.resolve();
+
+    const terminated = await getProcessRegistry().terminateAll();
+
+    if (session.db && !config.dryRun) {
+      // Only encodes are transcode jobs; probes, sample encodes and verification aren't
+      for (const { kind, source } of terminated) {
+        if (kind === 'transcode' && source) {
+          addInterruptedRecord(session.db, source);
+        }
+      }
+      await saveDatabase(config, session.db);
+      await saveErrorLog(config, session.db);
+    }
   };
   setupSignalHandlers(config, cleanup);
+  return session;
+}
+
+/**
+ * Apply transcode command options on top of the loaded configuration
+ */
+function applyCliOverrides(config: Config, options: TranscodeOptions): void {
+  if (options.mediaDirs) {
+    config.mediaDirs = options.mediaDirs.split(',').map((d) => d.trim());
+  }
+  if (options.concurrency !== undefined) {
+    config.maxConcurrency = options.concurrency;
+  }
+  if (options.order) {
+    config.ordering.strategy = options.order;
+  }
+  if (options.dryRun) {
+    config.dryRun = true;
+  }
+}
+
+/** Restore action handler */
+export async function restoreAction(options: RestoreOptions, path?: string): Promise<void> {
+  // Setup logger
+  const logLevel: LogLevel = options.quiet ? 'error' : options.verbose ? 'debug' : ((options.logLevel as LogLevel) || 'info');
+  const logger = createLogger({ level: logLevel });
+  setGlobalLogger(logger);
+
+  if (!path && !options.since) {
+    logger.error('Specify a file path or --since <date>');
+    Deno.exit(1);
+  }
+
+  let since: Date | undefined;
+  if (options.since) {
+    since = new Date(options.since);
+    if (isNaN(since.getTime())) {
+      logger.error(`Invalid date: ${options.since}`);
+      Deno.exit(1);
+    }
+  }
+
+  let config: Config;
+  try {
+    config = await loadConfig(options.config);
+    if (options.dryRun) {
+      config.dryRun = true;
+    }
+  } catch (error) {
+    logger.error('Failed to load configuration:', error);
+    Deno.exit(1);
+  }
+
+  if (!await acquireLock(config)) {
+    logger.error('Another instance is already running');
+    Deno.exit(1);
+  }
 
   try {
-    // Load database
     const db = await loadDatabase(config);
+    const records = findRestorableRecords(db, { path: path ? resolve(path) : undefined, since });
 
-    // Handle special commands
-    if (options.listErrors) {
-      await handleListErrors(db, logger, config);
-      return;
+    if (records.length === 0) {
+      logger.info('No quarantined originals match');
     }
 
-    if (options.clearErrors) {
-      await handleClearErrors(db, logger, config);
-      return;
+    let restored = 0;
+    let failed = 0;
+    for (const record of records) {
+      try {
+        await restoreFromQuarantine(config, db, record);
+        restored++;
+      } catch (error) {
+        logger.error(`Failed to restore ${record.originalPath}:`, error);
+        failed++;
+      }
     }
 
-    // Run main transcode workflow
-    await runTranscodeWorkflow(config, db, logger);
+    if (!config.dryRun) {
+      await saveDatabase(config, db);
+    }
+
+    logger.info(`Restored ${restored} originals${failed > 0 ? `, ${failed} failed` : ''}`);
   } catch (error) {
     logger.error('Fatal error:', error);
     await releaseLock(config);
@@ -143,9 +424,12 @@ async function handleListErrors(
   } else {
     logger.info(`Found ${errorCount} error records:`);
     for (const [path, error] of Object.entries(db.errors)) {
-      console.log(`  ${path}`);
+      console.log(`  ${path}${error.status === 'interrupted' ? ' (interrupted)' : ''}`);
       console.log(`    Error: ${error.error}`);
       console.log(`    Attempts: ${error.attempts}`);
+      if (error.category) {
+        console.log(`    Category: ${error.category} (strategy: ${error.strategy ?? 'default'})`);
+      }
     }
   }
   await releaseLock(config);
@@ -168,102 +452,659 @@ async function handleClearErrors(
 async function runTranscodeWorkflow(
   config: Config,
   db: Awaited<ReturnType<typeof loadDatabase>>,
-  logger: ReturnType<typeof createLogger>
+  logger: ReturnType<typeof createLogger>,
+  budget: RunBudget,
+  resume: boolean
 ): Promise<void> {
+  const startedAt = new Date();
+
+  // Don't scan outside the allowed windows; dry runs still show what would run
+  if (!config.dryRun && !isWithinSchedule(config.schedule, startedAt)) {
+    const next = getNextWindowStart(config.schedule, startedAt);
+    logger.info(`Outside the allowed time windows, next window starts ${next?.toLocaleString()}`);
+    await releaseLock(config);
+    return;
+  }
+
   // Show current stats
   const stats = getDatabaseStats(db);
   logger.info(
     `Database: ${stats.totalRecords} transcoded, ${stats.totalErrors} errors, ${formatFileSize(stats.totalSpaceSaved)} saved`
   );
 
-  // Scan media directories
-  logger.info('Scanning media directories...');
-  const scanResult = await scanMediaDirectories(config, db);
-
-  if (scanResult.toTranscode.length === 0) {
-    logger.info('No files need transcoding');
-    await releaseLock(config);
-    return;
+  // Expire quarantined originals past their retention or size budget
+  if (config.quarantine.enabled) {
+    const pruned = await pruneQuarantine(config, db);
+    if (pruned.removed > 0 && !config.dryRun) {
+      await saveDatabase(config, db);
+    }
   }
 
-  // Sort by file size (largest first)
-  scanResult.toTranscode.sort((a, b) => b.size - a.size);
+  const queue = await loadQueue(config);
 
-  // Show summary
-  const typeSummary = summarizeByType(scanResult.toTranscode);
-  logger.info(`Files to transcode: ${scanResult.toTranscode.length}`);
-  logger.info(`  TV shows: ${typeSummary.tv}`);
-  logger.info(`  Movies: ${typeSummary.movie}`);
-  logger.info(`  Other: ${typeSummary.other}`);
+  if (resume) {
+    const pending = getPendingJobs(queue);
+    if (pending.length === 0) {
+      logger.info('Nothing to resume: the queue is empty');
+      await releaseLock(config);
+      return;
+    }
+    logger.info(`Resuming ${pending.length} queued files without a scan`);
 
-  // Estimate total time
-  const totalEstimate = scanResult.toTranscode.reduce((sum, file) => {
-    return sum + estimateTranscodeTime(file.duration ?? 0, file.targetHeight ?? file.height, config.useHardwareAccel);
-  }, 0);
-  logger.info(`Estimated time: ${formatDuration(totalEstimate)}`);
+    if (config.dryRun) {
+      for (const job of pending) {
+        console.log(`  → ${formatFileSize(job.file.size).padStart(10)} | ${job.file.path}`);
+      }
+      await releaseLock(config);
+      return;
+    }
+  } else {
+    // Scan media directories
+    logger.info('Scanning media directories...');
+    const scanResult = await scanMediaDirectories(config, db);
 
-  if (config.dryRun) {
-    printDryRunSummary(scanResult, logger);
-    await releaseLock(config);
-    return;
+    const { relinked, invalidated } = scanResult.reconciled;
+    if ((relinked.length > 0 || invalidated.length > 0) && !config.dryRun) {
+      await saveDatabase(config, db);
+    }
+
+    const manual = getPendingJobs(queue).filter((job) => job.manual).length;
+    if (scanResult.toTranscode.length === 0 && manual === 0) {
+      logger.info('No files need transcoding');
+      await releaseLock(config);
+      return;
+    }
+
+    // Show summary
+    const typeSummary = summarizeByType(scanResult.toTranscode);
+    logger.info(`Files to transcode: ${scanResult.toTranscode.length}`);
+    logger.info(`  TV shows: ${typeSummary.tv}`);
+    logger.info(`  Movies: ${typeSummary.movie}`);
+    logger.info(`  Other: ${typeSummary.other}`);
+    if (manual > 0) {
+      logger.info(`  Added to the queue by hand: ${manual}`);
+    }
+
+    // Estimate total time, corrected by how far recent predictions were off
+    const correction = getPredictionCorrection(db);
+    const totalEstimate = scanResult.toTranscode.reduce((sum, file) => {
+      return sum + estimateFile(file, config, correction).seconds;
+    }, 0);
+    logger.info(`Estimated time: ${formatDuration(totalEstimate)}`);
+
+    scanResult.toTranscode = orderFiles(scanResult.toTranscode, config, correction);
+    logger.info(`Order: ${config.ordering.strategy}`);
+
+    if (config.dryRun) {
+      printDryRunSummary(scanResult, config, correction, logger);
+      await releaseLock(config);
+      return;
+    }
+
+    mergeScanIntoQueue(queue, scanResult.toTranscode);
   }
 
-  // Transcode files
-  const transcodeStats: TranscodeStats = {
-    totalFiles: scanResult.toTranscode.length,
-    skipped: 0,
-    transcoded: 0,
-    failed: 0,
-    spaceSaved: 0,
-    totalDuration: 0,
-  };
+  await saveQueue(config, queue);
+  await runQueuedJobs(config, db, logger, budget, queue, startedAt);
+}
 
-  logger.info(`Starting transcode with concurrency: ${config.maxConcurrency}`);
+/**
+ * Transcode the waiting jobs of the queue, saving the queue as each job
+ * starts and ends so an interrupted run can be resumed
+ */
+async function runQueuedJobs(
+  config: Config,
+  db: TranscodeDatabase,
+  logger: ReturnType<typeof createLogger>,
+  budget: RunBudget,
+  queue: JobQueue,
+  startedAt: Date
+): Promise<void> {
+  const jobs = getPendingJobs(queue);
+  const transcodeStats = createTranscodeStats(jobs.length);
+  const correction = getPredictionCorrection(db);
+
+  logger.info(
+    `Starting transcode with capacity ${config.scheduler.capacity} ` +
+      `(at most ${config.maxConcurrency} jobs at once)`
+  );
 
-  const processFile = async (file: MediaFile, index: number): Promise<void> => {
-    logger.progress(index + 1, scanResult.toTranscode.length, file.path);
+  // Holds back new jobs while the SoC is too hot or the machine too busy
+  const governor = new ResourceGovernor(config);
+  await governor.start();
 
-    const result = await transcodeFile(file, config);
+  // Files not started because the window ended or a budget ran out
+  const deferred: MediaFile[] = [];
+  let stopReason: string | null = null;
 
-    if (result.success && result.record) {
-      addTranscodeRecord(db, result.record);
-      transcodeStats.transcoded++;
-      transcodeStats.spaceSaved += result.record.originalSize - result.record.newSize;
-      transcodeStats.totalDuration += result.record.duration;
-    } else {
-      addErrorRecord(db, file.path, result.error ?? 'Unknown error');
-      transcodeStats.failed++;
+  const processJob = async (job: TranscodeJob, index: number): Promise<void> => {
+    // Don't start new jobs once a shutdown is under way
+    if (getProcessRegistry().isShuttingDown) return;
+
+    await governor.waitForCapacity();
+    if (getProcessRegistry().isShuttingDown) return;
+
+    // Running jobs finish; nothing new starts once the window or a budget is used up
+    stopReason ??= getStopReason(config.schedule, budget, transcodeStats, startedAt);
+    if (stopReason) {
+      deferred.push(job.file);
+      return;
+    }
+
+    const file = job.file;
+    const staleReason = await getStaleJobReason(job, db, config);
+    if (staleReason) {
+      logger.info(`Skipping ${file.path}: ${staleReason}`);
+      finishJob(job, 'skipped', staleReason);
+      transcodeStats.skipped++;
+      await saveQueue(config, queue);
+      return;
     }
 
+    // Checked again without awaiting before the job counts as started, as jobs
+    // running alongside may have used the budget up during the stale check
+    stopReason ??= getStopReason(config.schedule, budget, transcodeStats, startedAt);
+    if (stopReason) {
+      deferred.push(file);
+      return;
+    }
+    const predicted = getPredictedSize(file, config, correction) ?? file.size;
+    const reservedSavings = Math.max(0, file.size - predicted);
+    transcodeStats.started++;
+    transcodeStats.pendingSavings += reservedSavings;
+
+    startJob(job);
+    await saveQueue(config, queue);
+    logger.progress(index + 1, jobs.length, file.path);
+
+    const label = `(${index + 1}/${jobs.length}) ${basename(file.path)}`;
+    const status = await transcodeAndRecord(file, config, db, transcodeStats, label, logger)
+      .finally(() => {
+        // The real saving is in spaceSaved now
+        transcodeStats.pendingSavings -= reservedSavings;
+      });
+    // Jobs cut short by a shutdown stay processing and are requeued on the next load
+    if (status === null || status === 'interrupted') return;
+
+    finishJob(job, status, status === 'failed' ? db.errors[file.path]?.error : undefined);
+    await saveQueue(config, queue);
+
     // Save database periodically
     if ((index + 1) % 5 === 0) {
       await saveDatabase(config, db);
     }
   };
 
-  await runWithConcurrency(scanResult.toTranscode, config.maxConcurrency, processFile);
+  try {
+    // Weighted by resolution and frame rate, so small files pack around large ones
+    const scheduler = new WeightedScheduler(config.scheduler.capacity, config.maxConcurrency);
+    await runWithCapacity(jobs, scheduler, (job) => estimateJobCost(job.file, config), processJob);
+  } finally {
+    governor.stop();
+  }
   logger.progressEnd();
+  transcodeStats.throttleEvents = governor.events.length;
+  transcodeStats.throttledSeconds = governor.throttledSeconds;
 
   // Final save
   await saveDatabase(config, db);
   await saveErrorLog(config, db);
+  await saveQueue(config, queue);
+
+  printTranscodeSummary(transcodeStats, logger);
+  if (stopReason) {
+    printResumeSummary(stopReason, deferred, config, logger);
+  }
+}
+/**
+ * Transcode the given files, making the same decisions as a scan
+ * Files are checked against the exclusions and the database first; `explain`
+ * shows the full reasoning for a skipped file
+ */
+async function runFileTranscodes(
+  config: Config,
+  db: TranscodeDatabase,
+  logger: ReturnType<typeof createLogger>,
+  paths: string[]
+): Promise<void> {
+  // Follow renames of transcoded files, as a scan would
+  const candidates: DiscoveredFile[] = [];
+  for (const path of paths) {
+    try {
+      const stat = await Deno.stat(path);
+      candidates.push({ path, size: stat.size, mtime: stat.mtime?.getTime() ?? 0 });
+    } catch {
+      // Reported by the explanation below
+    }
+  }
+  const { relinked, invalidated } = await reconcileDatabase(candidates, db);
+  if ((relinked.length > 0 || invalidated.length > 0) && !config.dryRun) {
+    await saveDatabase(config, db);
+  }
+
+  const files: MediaFile[] = [];
+  let skipped = 0;
+  for (const path of paths) {
+    const explanation = await explainFile(path, config, db);
+    if (explanation.decision === 'transcode' && explanation.file) {
+      files.push(explanation.file);
+      continue;
+    }
+    if (explanation.decision === 'error') {
+      logger.error(`Skipping ${path}: ${explanation.reason}`);
+    } else {
+      logger.info(`Skipping ${path}: ${explanation.reason}`);
+    }
+    skipped++;
+  }
+
+  if (files.length === 0) {
+    logger.info('No files need transcoding');
+    return;
+  }
+  logger.info(`Files to transcode: ${files.length}`);
+
+  if (config.dryRun) {
+    for (const file of files) {
+      console.log(`  → ${formatFileSize(file.size).padStart(10)} | ${file.path}`);
+    }
+    return;
+  }
+
+  const transcodeStats = createTranscodeStats(paths.length);
+  transcodeStats.skipped = skipped;
+
+  const governor = new ResourceGovernor(config);
+  await governor.start();
+  try {
+    const scheduler = new WeightedScheduler(config.scheduler.capacity, config.maxConcurrency);
+    await runWithCapacity(
+      files,
+      scheduler,
+      (file) => estimateJobCost(file, config),
+      async (file, index) => {
+        if (getProcessRegistry().isShuttingDown) return;
+        await governor.waitForCapacity();
+        if (getProcessRegistry().isShuttingDown) return;
+
+        const label = `(${index + 1}/${files.length}) ${basename(file.path)}`;
+        await transcodeAndRecord(file, config, db, transcodeStats, label, logger);
+        await saveDatabase(config, db);
+      }
+    );
+  } finally {
+    governor.stop();
+  }
+  transcodeStats.throttleEvents = governor.events.length;
+  transcodeStats.throttledSeconds = governor.throttledSeconds;
+
+  await saveDatabase(config, db);
+  await saveErrorLog(config, db);
+  printTranscodeSummary(transcodeStats, logger);
+}
+
 
-  // Print summary
+/** Print what is left for the next run after stopping early */
+function printResumeSummary(
+  stopReason: string,
+  deferred: MediaFile[],
+  config: Config,
+  logger: ReturnType<typeof createLogger>
+): void {
+  const remainingSize = deferred.reduce((sum, file) => sum + file.size, 0);
+  const next = getNextWindowStart(config.schedule);
+
+  logger.info(`Stopped early: ${stopReason}`);
+  logger.info(`  Remaining: ${deferred.length} files (${formatFileSize(remainingSize)})`);
+  logger.info(
+    next
+      ? `  Resume next window: ${next.toLocaleString()}`
+      : '  Resume: run again to continue with the remaining files'
+  );
+  logger.info('  The remaining files stay queued; "transcode --resume" continues without a rescan');
+}
+
+/** Empty counters for a transcode run */
+function createTranscodeStats(totalFiles: number): TranscodeStats {
+  return {
+    totalFiles,
+    skipped: 0,
+    transcoded: 0,
+    failed: 0,
+    interrupted: 0,
+    started: 0,
+    spaceSaved: 0,
+    pendingSavings: 0,
+    totalDuration: 0,
+    throttleEvents: 0,
+    throttledSeconds: 0,
+  };
+}
+
+/**
+ * Calibrate and transcode one file, recording the outcome in the database and stats
+ * Returns null when a shutdown started before the encode
+ */
+async function transcodeAndRecord(
+  file: MediaFile,
+  config: Config,
+  db: TranscodeDatabase,
+  transcodeStats: TranscodeStats,
+  label: string,
+  logger: ReturnType<typeof createLogger>
+): Promise<'completed' | 'failed' | 'interrupted' | 'skipped' | null> {
+  // Pick the bitrate from sample encodes when quality mode is on
+  await applyQualityCalibration(file, config, db);
+  if (getProcessRegistry().isShuttingDown) return null;
+
+  const result = await transcodeFile(file, config, (progress) => {
+    const eta = progress.etaSeconds !== undefined ? formatDuration(progress.etaSeconds) : '?';
+    logger.jobProgress(
+      label,
+      progress.percent,
+      `${progress.fps.toFixed(0)} fps, ${progress.speed.toFixed(2)}x, ETA ${eta}`
+    );
+  }, db.errors[file.path]);
+  logger.progressEnd();
+
+  if (result.skipped) {
+    transcodeStats.skipped++;
+    return 'skipped';
+  }
+  if (result.interrupted) {
+    // Recorded by the shutdown handler, which saves the database before exiting
+    transcodeStats.interrupted++;
+    return 'interrupted';
+  }
+  if (result.success && result.record) {
+    addTranscodeRecord(db, result.record);
+    transcodeStats.transcoded++;
+    transcodeStats.spaceSaved += result.record.originalSize - result.record.newSize;
+    transcodeStats.totalDuration += result.record.duration;
+    return 'completed';
+  }
+  addErrorRecord(db, file.path, result.error ?? 'Unknown error', {
+    category: result.category,
+    strategy: result.strategy,
+  });
+  transcodeStats.failed++;
+  return 'failed';
+}
+
+/** Print the end-of-run summary */
+function printTranscodeSummary(
+  transcodeStats: TranscodeStats,
+  logger: ReturnType<typeof createLogger>
+): void {
   logger.info('='.repeat(50));
   logger.info('Transcoding complete!');
   logger.info(`  Transcoded: ${transcodeStats.transcoded}`);
   logger.info(`  Failed: ${transcodeStats.failed}`);
+  if (transcodeStats.interrupted > 0) {
+    logger.info(`  Interrupted: ${transcodeStats.interrupted}`);
+  }
   logger.info(`  Space saved: ${formatFileSize(transcodeStats.spaceSaved)}`);
   logger.info(`  Total time: ${formatDuration(transcodeStats.totalDuration)}`);
+  if (transcodeStats.throttleEvents > 0) {
+    logger.info(
+      `  Throttled: ${transcodeStats.throttleEvents} times, ` +
+        `${formatDuration(transcodeStats.throttledSeconds)} in total`
+    );
+  }
 
   if (transcodeStats.failed > 0) {
     logger.warn(`${transcodeStats.failed} files failed. Run with --list-errors to see details.`);
   }
 }
 
+/**
+ * Watch mode: transcode files as they arrive instead of on a schedule
+ * New files are queued once they stop growing, a full rescan runs every
+ * `watch.rescanMinutes`, and the config file is reloaded when it changes.
+ * Runs until a signal stops the process.
+ */
+async function runWatchMode(
+  config: Config,
+  db: TranscodeDatabase,
+  logger: ReturnType<typeof createLogger>,
+  options: TranscodeOptions
+): Promise<void> {
+  const registry = getProcessRegistry();
+  const queue = await loadQueue(config);
+  const pending: PendingFiles = new Map();
+  const transcodeStats = createTranscodeStats(0);
+  const governor = new ResourceGovernor(config);
+  await governor.start();
+  const scheduler = new WeightedScheduler(config.scheduler.capacity, config.maxConcurrency);
+  let watcher = await watchMediaDirectories(config, pending);
+  let running = 0;
+  let nextRescan = 0;
+  let reloadPending = false;
+
+  const configPath = options.config ?? await findConfigFile();
+  let configMtime = configPath ? await getFileMtime(configPath) : null;
+
+  const addToQueue = async (files: MediaFile[]): Promise<void> => {
+    const added = files.filter((file) => enqueueJob(queue, file)).length;
+    if (added > 0) {
+      await saveQueue(config, queue);
+      logger.info(`Queued ${added} files (${countPendingJobs(queue)} waiting)`);
+    }
+  };
+
+  const runJob = async (job: TranscodeJob): Promise<void> => {
+    // Reserved right away: the job was only taken because its cost fits
+    const cost = estimateJobCost(job.file, config);
+    await scheduler.acquire(cost);
+    try {
+      // The file may have been removed or handled since it was queued
+      const staleReason = await getStaleJobReason(job, db, config);
+      if (staleReason) {
+        logger.info(`Skipping ${job.file.path}: ${staleReason}`);
+        finishJob(job, 'skipped', staleReason);
+        await saveQueue(config, queue);
+        return;
+      }
+
+      await saveQueue(config, queue);
+      const label = `${basename(job.file.path)} (${countPendingJobs(queue)} waiting)`;
+      const status = await transcodeAndRecord(job.file, config, db, transcodeStats, label, logger);
+      // Leave the job processing on shutdown; it is requeued on the next start
+      if (status === null || registry.isShuttingDown) return;
+
+      finishJob(job, status, status === 'failed' ? db.errors[job.file.path]?.error : undefined);
+      await saveDatabase(config, db);
+      await saveErrorLog(config, db);
+      await saveQueue(config, queue);
+      logger.info(
+        `Watch totals: ${transcodeStats.transcoded} transcoded, ${transcodeStats.failed} failed, ` +
+          `${formatFileSize(transcodeStats.spaceSaved)} saved`
+      );
+    } catch (error) {
+      logger.error(`Job failed: ${job.file.path}`, error);
+      finishJob(job, 'failed', error instanceof Error ? error.message : String(error));
+      await saveQueue(config, queue);
+    } finally {
+      scheduler.release(cost);
+    }
+  };
+
+  logger.info(
+    `Watch mode: ${countPendingJobs(queue)} queued, capacity ${config.scheduler.capacity}, ` +
+      `files picked up after ${config.watch.stableSeconds}s without changes`
+  );
+
+  while (!registry.isShuttingDown) {
+    // A failed poll (unreadable directory, full disk) is retried on the next one
+    try {
+      // Reload the config when its file changes, once running jobs have finished
+      if (configPath) {
+        const mtime = await getFileMtime(configPath);
+        if (mtime !== configMtime) {
+          configMtime = mtime;
+          reloadPending = true;
+        }
+      }
+      if (configPath && reloadPending && running === 0) {
+        reloadPending = false;
+        const previousDirs = config.mediaDirs.join('\n');
+        if (await reloadConfig(config, configPath, options, logger)) {
+          scheduler.capacity = config.scheduler.capacity;
+          scheduler.maxJobs = config.maxConcurrency;
+          if (config.mediaDirs.join('\n') !== previousDirs) {
+            watcher.close();
+            pending.clear();
+            watcher = await watchMediaDirectories(config, pending);
+            nextRescan = 0;
+          }
+        }
+      }
+
+      // Full rescan catches anything the watcher missed (e.g. network mounts)
+      if (Date.now() >= nextRescan) {
+        // Scheduled first, so a failing rescan isn't retried every poll
+        nextRescan = config.watch.rescanMinutes > 0
+          ? Date.now() + config.watch.rescanMinutes * 60 * 1000
+          : Infinity;
+        if (config.quarantine.enabled) {
+          const pruned = await pruneQuarantine(config, db);
+          if (pruned.removed > 0) {
+            await saveDatabase(config, db);
+          }
+        }
+        const scanResult = await scanMediaDirectories(config, db);
+        await saveDatabase(config, db);
+        await addToQueue(orderFiles(scanResult.toTranscode, config, getPredictionCorrection(db)));
+      }
+
+      // Queue files that stopped growing; they are no longer pending, so one
+      // failing doesn't drop the rest
+      const stableFiles = await takeStableFiles(pending, config.watch.stableSeconds);
+      for (const file of stableFiles) {
+        try {
+          const mediaFile = await analyzeSettledFile(file, config, db);
+          if (mediaFile) {
+            await addToQueue([mediaFile]);
+          }
+        } catch (error) {
+          logger.error(`Failed to analyze ${file.path}`, error);
+        }
+      }
+      // Analysis relinks records and stores calibrations; idle polls change nothing
+      if (stableFiles.length > 0) {
+        await saveDatabase(config, db);
+      }
+
+      // Start queued jobs while their cost fits in the capacity left
+      while (
+        !reloadPending && !registry.isShuttingDown && isWithinSchedule(config.schedule) &&
+        !governor.isThrottled
+      ) {
+        const job = takeNextJob(queue, (j) => scheduler.fits(estimateJobCost(j.file, config)));
+        if (!job) break;
+        running++;
+        runJob(job)
+          .catch((error) => logger.error(`Failed to save the queue after ${job.file.path}`, error))
+          .finally(() => running--);
+      }
+    } catch (error) {
+      logger.error('Watch poll failed', error);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, WATCH_POLL_MS));
+  }
+
+  governor.stop();
+  watcher.close();
+}
+
+/**
+ * Reload the config file in place for watch mode, keeping CLI overrides
+ * Returns false (keeping the current config) when the new one is invalid
+ */
+async function reloadConfig(
+  config: Config,
+  configPath: string,
+  options: TranscodeOptions,
+  logger: ReturnType<typeof createLogger>
+): Promise<boolean> {
+  try {
+    const reloaded = await loadConfig(configPath);
+    applyCliOverrides(reloaded, options);
+
+    const errors = validateConfig(reloaded);
+    if (errors.length > 0) {
+      for (const error of errors) {
+        logger.error(`Config error: ${error}`);
+      }
+      logger.warn('Keeping the previous configuration');
+      return false;
+    }
+
+    await resolveEncoder(reloaded);
+    if (reloaded.quality.enabled) {
+      const reason = await checkQualityMetric(reloaded);
+      if (reason) {
+        logger.warn(`Quality mode disabled: ${reason}`);
+        reloaded.quality.enabled = false;
+      }
+    }
+
+    Object.assign(config, reloaded);
+    logger.info(`Configuration reloaded from ${configPath}`);
+    return true;
+  } catch (error) {
+    logger.error('Failed to reload configuration, keeping the previous one:', error);
+    return false;
+  }
+}
+
+/** Get a file's modification time, or null when it doesn't exist */
+async function getFileMtime(path: string): Promise<number | null> {
+  try {
+    return (await Deno.stat(path)).mtime?.getTime() ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Print how much the files, in order, would have saved after 1, 2, 4... hours
+ * of encoding, and at the end
+ */
+function printSavingsOverTime(
+  files: MediaFile[],
+  config: Config,
+  correction: PredictionCorrection
+): void {
+  console.log('\n  Savings over time:');
+
+  let elapsed = 0;
+  let saved = 0;
+  let milestone = 3600;
+  for (const [i, file] of files.entries()) {
+    const { seconds, savings } = estimateFile(file, config, correction);
+    while (elapsed + seconds > milestone) {
+      console.log(
+        `    ${formatDuration(milestone).padStart(12)}: ${formatFileSize(saved).padStart(10)} ` +
+          `(${i} files)`
+      );
+      milestone *= 2;
+    }
+    elapsed += seconds;
+    saved += savings ?? 0;
+  }
+  console.log(
+    `    ${formatDuration(elapsed).padStart(12)}: ${formatFileSize(saved).padStart(10)} ` +
+      `(${files.length} files)`
+  );
+}
+
 /** Print dry run summary */
 function printDryRunSummary(
   scanResult: Awaited<ReturnType<typeof scanMediaDirectories>>,
+  config: Config,
+  correction: PredictionCorrection,
   logger: ReturnType<typeof createLogger>
 ): void {
   console.log('\n' + '='.repeat(60));
@@ -271,16 +1112,36 @@ function printDryRunSummary(
   console.log('='.repeat(60));
 
   const totalSize = scanResult.toTranscode.reduce((sum, f) => sum + f.size, 0);
-  console.log(`\n⚡ WILL TRANSCODE (${scanResult.toTranscode.length} files, ${formatFileSize(totalSize)} total):`);
+  console.log(
+    `\n⚡ WILL TRANSCODE (${scanResult.toTranscode.length} files, ${formatFileSize(totalSize)} total, ` +
+      `${config.ordering.strategy} order):`
+  );
 
+  let totalPredicted = 0;
+  let unpredicted = 0;
   for (const file of scanResult.toTranscode) {
     const action = file.codec.toLowerCase().includes('hevc') || file.codec.toLowerCase().includes('h265')
       ? 'scale'
       : 'convert';
+    const predicted = getPredictedSize(file, config, correction);
+    let savings = '';
+    if (predicted === null) {
+      unpredicted++;
+    } else {
+      totalPredicted += file.size - predicted;
+      const percent = Math.round((1 - predicted / file.size) * 100);
+      savings = `, saves ~${formatFileSize(file.size - predicted)} (${percent}%${file.prediction ? '' : ', est.'})`;
+    }
     console.log(
-      `  → ${formatFileSize(file.size).padStart(10)} | ${file.path} [${file.codec} ${file.width}x${file.height} → HEVC ${file.targetWidth}x${file.targetHeight}, ${action}]`
+      `  → ${formatFileSize(file.size).padStart(10)} | ${file.path} [${file.codec} ${file.width}x${file.height} → HEVC ${file.targetWidth}x${file.targetHeight}, ${action}${savings}]`
     );
   }
+  console.log(
+    `\n  Predicted savings: ${formatFileSize(totalPredicted)}` +
+      (unpredicted > 0 ? ` (${unpredicted} files without a prediction)` : '') +
+      (correction.count > 0 ? `, corrected by ${correction.count} recent transcodes` : '')
+  );
+  printSavingsOverTime(scanResult.toTranscode, config, correction);
 
   if (scanResult.skipped.length > 0) {
     console.log(`\n✓ SKIPPED (${scanResult.skipped.length} files):`);
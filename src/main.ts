@@ -7,14 +7,37 @@
  */
 
 import { Command, EnumType } from '@cliffy/command';
-import { transcodeAction } from './cli/transcode.ts';
+import { restoreAction, transcodeAction, transcodeFilesAction } from './cli/transcode.ts';
+import { explainAction, probeAction } from './cli/inspect.ts';
 import { syncAction, backfillAction } from './cli/sync.ts';
+import {
+  dbExportAction,
+  dbImportAction,
+  dbMigrateAction,
+  dbPruneAction,
+  dbStatsAction,
+  dbVerifyAction,
+} from './cli/db.ts';
+import { queueAddAction, queueListAction, queueMoveAction, queueRemoveAction } from './cli/queue.ts';
 
 const VERSION = '1.0.0';
 
 /** Log level enum type */
 const logLevelType = new EnumType(['debug', 'info', 'warn', 'error']);
 
+/** Transcode order enum type */
+const orderStrategyType = new EnumType([
+  'largest',
+  'savings-rate',
+  'newest',
+  'directory',
+  'shortest',
+  'round-robin',
+]);
+
+/** Database export format enum type */
+const dbFormatType = new EnumType(['json', 'csv']);
+
 /** Main CLI application */
 const cli = new Command()
   .name('danger-transcode')
@@ -32,15 +55,95 @@ const cli = new Command()
  */
 cli.command('transcode', 'Transcode media files in-place to HEVC')
   .alias('t')
+  .type('order-strategy', orderStrategyType)
   .option('--media-dirs <dirs:string>', 'Comma-separated list of media directories')
   .option('--concurrency <n:number>', 'Number of concurrent transcodes', { default: 1 })
   .option('--clear-errors', 'Clear error records and retry failed files')
   .option('--list-errors', 'List files that failed to transcode')
+  .option('--watch', 'Keep running and transcode new files as they arrive')
+  .option('--max-runtime <duration:string>', 'Stop starting new transcodes after this long (e.g. 4h, 90m)')
+  .option('--max-files <n:number>', 'Stop after transcoding this many files')
+  .option('--max-bytes-saved <size:string>', 'Stop once this much space is saved (e.g. 200GB)')
+  .option('--order <strategy:order-strategy>', 'Order to transcode files in (overrides config)')
+  .option('--resume', 'Continue the queue of the last run without scanning')
   .example('Basic usage', 'danger-transcode transcode')
   .example('Specific directories', 'danger-transcode transcode --media-dirs /mnt/movies,/mnt/tv')
   .example('Preview changes', 'danger-transcode transcode --dry-run --verbose')
   .example('Clear failed files', 'danger-transcode transcode --clear-errors')
-  .action(transcodeAction);
+  .example('Watch for new files', 'danger-transcode transcode --watch')
+  .example('Limit a run', 'danger-transcode transcode --max-runtime 4h --max-bytes-saved 200GB')
+  .example('Continue the last run', 'danger-transcode transcode --resume')
+  .action(transcodeAction)
+  .command('file <paths...:string>', 'Transcode specific files')
+  .option('--concurrency <n:number>', 'Number of concurrent transcodes (default: from config)')
+  .example('One episode', 'danger-transcode transcode file "/mnt/tv/Show/S01E01.mkv"')
+  .example('A whole season', 'danger-transcode transcode file /mnt/tv/Show/S01/*.mkv')
+  .action(transcodeFilesAction)
+  .command('restore [path:string]', 'Restore quarantined originals over their transcoded files')
+  .option('--since <date:string>', 'Restore every original quarantined since this date (e.g. 2024-05-01)')
+  .example('Restore one file', 'danger-transcode transcode restore "/mnt/tv/Show/S01E01.mkv"')
+  .example('Restore recent encodes', 'danger-transcode transcode restore --since 2024-05-01')
+  .action(restoreAction);
+
+/**
+ * DB command - Maintain the transcode database
+ */
+cli.command('db', 'Maintain the transcode database')
+  .globalType('db-format', dbFormatType)
+  .command('prune', 'Drop records for files that no longer exist')
+  .example('Preview', 'danger-transcode db prune --dry-run')
+  .action(dbPruneAction)
+  .command('verify', 'Check that recorded files still match their size and codec')
+  .option('--no-probe', 'Only check sizes, without probing each file')
+  .action(dbVerifyAction)
+  .command('export <path:string>', 'Export the database as JSON, or its records as CSV')
+  .option('--format <format:db-format>', 'Export format (default: from the file extension)')
+  .example('Backup', 'danger-transcode db export /backup/database.json')
+  .example('Spreadsheet', 'danger-transcode db export records.csv')
+  .action(dbExportAction)
+  .command('import <path:string>', 'Import a JSON or CSV export')
+  .option('--format <format:db-format>', 'Import format (default: from the file extension)')
+  .option('--merge', 'Merge into the database, keeping the newer entry on conflicts')
+  .example('Restore a backup', 'danger-transcode db import /backup/database.json')
+  .example('Merge another machine', 'danger-transcode db import other.json --merge')
+  .action(dbImportAction)
+  .command('migrate', 'Migrate the database to the current version')
+  .action(dbMigrateAction)
+  .command('stats', 'Break down savings by directory, type and source codec')
+  .option('--limit <n:number>', 'Rows per table', { default: 20 })
+  .action(dbStatsAction);
+
+/**
+ * PROBE command - Show what ffprobe reports for a file
+ */
+cli.command('probe <path:string>', 'Show the format and streams of a media file')
+  .option('--json', 'Print the probe result as JSON')
+  .example('Streams', 'danger-transcode probe "/mnt/movies/Film.mkv"')
+  .action(probeAction);
+
+/**
+ * EXPLAIN command - Trace the decisions made for a file
+ */
+cli.command('explain <path:string>', 'Explain why a file would be excluded, skipped or transcoded')
+  .option('--json', 'Print the explanation as JSON')
+  .example('Why skipped?', 'danger-transcode explain "/mnt/movies/Film.mkv"')
+  .action(explainAction);
+
+/**
+ * QUEUE command - Inspect and reorder the transcode queue
+ */
+cli.command('queue', 'Inspect and reorder the transcode queue')
+  .command('list', 'List waiting and running jobs')
+  .option('--all', 'Also list recently finished jobs')
+  .action(queueListAction)
+  .command('move <path:string> <position:number>', 'Move a waiting job to a position (1 = next)')
+  .example('Run next', 'danger-transcode queue move "/mnt/movies/Film.mkv" 1')
+  .action(queueMoveAction)
+  .command('remove <path:string>', 'Remove a waiting job')
+  .action(queueRemoveAction)
+  .command('add <path:string>', 'Queue a file at the front')
+  .example('Shrink a new download first', 'danger-transcode queue add "/mnt/tv/Show/S01E01.mkv"')
+  .action(queueAddAction);
 
 /**
  * SYNC command - Sync media to portable drives with transcoding
@@ -12,6 +12,7 @@ import {
   DEFAULT_PATHS,
 } from './constants.ts';
 import type {
+  AudioPolicy,
   UnifiedConfig,
   SharedConfig,
   TranscodeModuleConfig,
@@ -39,11 +40,25 @@ export const DEFAULT_SHARED_CONFIG: SharedConfig = {
   ffprobePath: 'ffprobe',
 };
 
+/** Default audio policy: copy every track, as before audio policies existed */
+const DEFAULT_AUDIO_POLICY: AudioPolicy = {
+  keepLossy: true,
+  convertLossless: false,
+  codec: 'aac',
+  bitrate: '640k',
+  maxChannels: 0,
+  languages: [],
+  keepOriginalLanguage: true,
+  keepCommentary: true,
+};
+
 /** Default transcode module configuration */
 export const DEFAULT_TRANSCODE_CONFIG: TranscodeModuleConfig = {
   databasePath: join(DEFAULT_PATHS.dataDir, DEFAULT_PATHS.databaseFile),
   errorLogPath: join(DEFAULT_PATHS.dataDir, DEFAULT_PATHS.errorLogFile),
   lockFilePath: join('/tmp', DEFAULT_PATHS.lockFile),
+  journalPath: join(DEFAULT_PATHS.dataDir, DEFAULT_PATHS.journalFile),
+  queuePath: join(DEFAULT_PATHS.dataDir, DEFAULT_PATHS.queueFile),
   tvMaxHeight: 720,
   movieMaxHeight: 1080,
   bitrates: { low: '2M', medium: '5M', high: '15M' },
@@ -54,6 +69,79 @@ export const DEFAULT_TRANSCODE_CONFIG: TranscodeModuleConfig = {
     pathContains: [],
   },
   useHardwareAccel: true,
+  encoder: 'auto',
+  hwDevice: '/dev/dri/renderD128',
+  audio: {
+    tv: { ...DEFAULT_AUDIO_POLICY },
+    movie: { ...DEFAULT_AUDIO_POLICY },
+    other: { ...DEFAULT_AUDIO_POLICY },
+  },
+  outputContainer: 'keep',
+  hdr: { tv: 'skip', movie: 'skip', other: 'skip' },
+  savings: {
+    sourceBitrateFraction: 0.6,
+    minPercent: 15,
+    minBytes: 0,
+  },
+  prediction: {
+    enabled: false,
+    samples: 3,
+    sampleSeconds: 20,
+  },
+  quality: {
+    enabled: false,
+    metric: 'vmaf',
+    targets: { tv: 93, movie: 95, other: 93 },
+    bitrateSteps: [0.4, 0.55, 0.7, 0.85, 1],
+    samples: 3,
+    sampleSeconds: 10,
+  },
+  probe: {
+    cache: true,
+    cachePath: join(DEFAULT_PATHS.dataDir, DEFAULT_PATHS.probeCacheFile),
+    concurrency: 4,
+  },
+  watch: {
+    stableSeconds: 120,
+    rescanMinutes: 360,
+  },
+  schedule: {
+    windows: [],
+  },
+  governor: {
+    enabled: true,
+    thermalPath: '/sys/class/thermal',
+    loadAvgPath: '/proc/loadavg',
+    maxTemperature: 85,
+    maxLoad: 0,
+    temperatureHysteresis: 10,
+    loadHysteresis: 1,
+    action: 'pause',
+    pollSeconds: 10,
+  },
+  scheduler: {
+    capacity: 2,
+    softwareFactor: 4,
+  },
+  ordering: {
+    strategy: 'largest',
+    directoryPriority: [],
+  },
+  verification: {
+    enabled: true,
+    durationToleranceSeconds: 3,
+    checkStreams: true,
+    checkResolution: true,
+    decodeTest: false,
+    decodeSegments: 3,
+    decodeSegmentSeconds: 5,
+  },
+  quarantine: {
+    enabled: false,
+    directory: join(DEFAULT_PATHS.dataDir, DEFAULT_PATHS.quarantineDir),
+    retentionDays: 30,
+    maxSize: '',
+  },
 };
 
 /** Default sync module configuration */
@@ -203,11 +291,29 @@ function convertLegacyTranscodeConfig(raw: Record<string, unknown>): UnifiedConf
   if (legacy.databasePath) config.transcode.databasePath = legacy.databasePath;
   if (legacy.errorLogPath) config.transcode.errorLogPath = legacy.errorLogPath;
   if (legacy.lockFilePath) config.transcode.lockFilePath = legacy.lockFilePath;
+  if (legacy.journalPath) config.transcode.journalPath = legacy.journalPath;
+  if (legacy.queuePath) config.transcode.queuePath = legacy.queuePath;
   if (legacy.tvMaxHeight) config.transcode.tvMaxHeight = legacy.tvMaxHeight;
   if (legacy.movieMaxHeight) config.transcode.movieMaxHeight = legacy.movieMaxHeight;
   if (legacy.bitrates) config.transcode.bitrates = legacy.bitrates;
   if (legacy.exclusions) config.transcode.exclusions = legacy.exclusions;
   if (legacy.useHardwareAccel !== undefined) config.transcode.useHardwareAccel = legacy.useHardwareAccel;
+  if (legacy.encoder) config.transcode.encoder = legacy.encoder;
+  if (legacy.hwDevice) config.transcode.hwDevice = legacy.hwDevice;
+  if (legacy.audio) config.transcode.audio = legacy.audio;
+  if (legacy.outputContainer) config.transcode.outputContainer = legacy.outputContainer;
+  if (legacy.hdr) config.transcode.hdr = legacy.hdr;
+  if (legacy.savings) config.transcode.savings = legacy.savings;
+  if (legacy.prediction) config.transcode.prediction = legacy.prediction;
+  if (legacy.quality) config.transcode.quality = legacy.quality;
+  if (legacy.probe) config.transcode.probe = legacy.probe;
+  if (legacy.watch) config.transcode.watch = legacy.watch;
+  if (legacy.schedule) config.transcode.schedule = legacy.schedule;
+  if (legacy.governor) config.transcode.governor = legacy.governor;
+  if (legacy.scheduler) config.transcode.scheduler = legacy.scheduler;
+  if (legacy.ordering) config.transcode.ordering = legacy.ordering;
+  if (legacy.verification) config.transcode.verification = legacy.verification;
+  if (legacy.quarantine) config.transcode.quarantine = legacy.quarantine;
 
   return config;
 }
@@ -330,6 +436,32 @@ function applyEnvOverrides(config: UnifiedConfig): UnifiedConfig {
   const hwAccel = env.get('TRANSCODE_HW_ACCEL');
   if (hwAccel !== undefined) config.transcode.useHardwareAccel = hwAccel !== 'false' && hwAccel !== '0';
 
+  const encoder = env.get('TRANSCODE_ENCODER');
+  if (encoder) config.transcode.encoder = encoder as TranscodeModuleConfig['encoder'];
+
+  const outputContainer = env.get('TRANSCODE_OUTPUT_CONTAINER');
+  if (outputContainer) {
+    config.transcode.outputContainer = outputContainer as TranscodeModuleConfig['outputContainer'];
+  }
+
+  const minSavings = env.get('TRANSCODE_MIN_SAVINGS_PERCENT');
+  if (minSavings) {
+    config.transcode.savings = {
+      ...DEFAULT_TRANSCODE_CONFIG.savings,
+      ...config.transcode.savings,
+      minPercent: parseFloat(minSavings) || 0,
+    };
+  }
+
+  const probeConcurrency = env.get('TRANSCODE_PROBE_CONCURRENCY');
+  if (probeConcurrency) {
+    config.transcode.probe = {
+      ...DEFAULT_TRANSCODE_CONFIG.probe,
+      ...config.transcode.probe,
+      concurrency: parseInt(probeConcurrency, 10) || 1,
+    };
+  }
+
   // Sync module overrides
   const tmdbKey = env.get('TMDB_API_KEY');
   if (tmdbKey) config.sync.tmdbApiKey = tmdbKey;
@@ -351,6 +483,8 @@ export function toLegacyTranscodeConfig(unified: UnifiedConfig): LegacyTranscode
     databasePath: unified.transcode.databasePath,
     errorLogPath: unified.transcode.errorLogPath,
     lockFilePath: unified.transcode.lockFilePath,
+    journalPath: unified.transcode.journalPath,
+    queuePath: unified.transcode.queuePath ?? DEFAULT_TRANSCODE_CONFIG.queuePath,
     maxConcurrency: unified.shared.maxConcurrency,
     tvMaxHeight: unified.transcode.tvMaxHeight,
     movieMaxHeight: unified.transcode.movieMaxHeight,
@@ -360,6 +494,30 @@ export function toLegacyTranscodeConfig(unified: UnifiedConfig): LegacyTranscode
     ffmpegPath: unified.shared.ffmpegPath,
     ffprobePath: unified.shared.ffprobePath,
     useHardwareAccel: unified.transcode.useHardwareAccel,
+    encoder: unified.transcode.encoder ?? DEFAULT_TRANSCODE_CONFIG.encoder,
+    hwDevice: unified.transcode.hwDevice ?? DEFAULT_TRANSCODE_CONFIG.hwDevice,
+    audio: {
+      tv: { ...DEFAULT_AUDIO_POLICY, ...unified.transcode.audio?.tv },
+      movie: { ...DEFAULT_AUDIO_POLICY, ...unified.transcode.audio?.movie },
+      other: { ...DEFAULT_AUDIO_POLICY, ...unified.transcode.audio?.other },
+    },
+    outputContainer: unified.transcode.outputContainer ?? DEFAULT_TRANSCODE_CONFIG.outputContainer,
+    hdr: { ...DEFAULT_TRANSCODE_CONFIG.hdr, ...unified.transcode.hdr },
+    savings: { ...DEFAULT_TRANSCODE_CONFIG.savings, ...unified.transcode.savings },
+    prediction: { ...DEFAULT_TRANSCODE_CONFIG.prediction, ...unified.transcode.prediction },
+    quality: {
+      ...DEFAULT_TRANSCODE_CONFIG.quality,
+      ...unified.transcode.quality,
+      targets: { ...DEFAULT_TRANSCODE_CONFIG.quality.targets, ...unified.transcode.quality?.targets },
+    },
+    probe: { ...DEFAULT_TRANSCODE_CONFIG.probe, ...unified.transcode.probe },
+    watch: { ...DEFAULT_TRANSCODE_CONFIG.watch, ...unified.transcode.watch },
+    schedule: { ...DEFAULT_TRANSCODE_CONFIG.schedule, ...unified.transcode.schedule },
+    governor: { ...DEFAULT_TRANSCODE_CONFIG.governor, ...unified.transcode.governor },
+    scheduler: { ...DEFAULT_TRANSCODE_CONFIG.scheduler, ...unified.transcode.scheduler },
+    ordering: { ...DEFAULT_TRANSCODE_CONFIG.ordering, ...unified.transcode.ordering },
+    verification: { ...DEFAULT_TRANSCODE_CONFIG.verification, ...unified.transcode.verification },
+    quarantine: { ...DEFAULT_TRANSCODE_CONFIG.quarantine, ...unified.transcode.quarantine },
     dryRun: unified.shared.dryRun,
   };
 }
@@ -408,6 +566,14 @@ export function validateUnifiedConfig(config: UnifiedConfig): string[] {
   if (config.transcode.movieMaxHeight < 240) {
     errors.push('movieMaxHeight must be at least 240');
   }
+  if (!['keep', 'mkv', 'mp4'].includes(config.transcode.outputContainer)) {
+    errors.push('outputContainer must be one of: keep, mkv, mp4');
+  }
+  for (const [type, policy] of Object.entries(config.transcode.hdr ?? {})) {
+    if (!['preserve', 'tonemap', 'skip'].includes(policy)) {
+      errors.push(`hdr.${type} must be one of: preserve, tonemap, skip`);
+    }
+  }
 
   return errors;
 }
@@ -81,6 +81,10 @@ export const DEFAULT_PATHS = {
   errorLogFile: 'errors.json',
   lockFile: 'danger-transcode.lock',
   syncDatabaseFile: 'sync-database.json',
+  quarantineDir: 'quarantine',
+  journalFile: 'replace-journal.jsonl',
+  probeCacheFile: 'probe-cache.json',
+  queueFile: 'queue.json',
 } as const;
 
 /** Resolution presets */
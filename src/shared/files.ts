@@ -0,0 +1,61 @@
+/**
+ * File utilities for danger-transcode
+ * Filesystem helpers shared by the transcode and sync modules
+ */
+
+/**
+ * Move a file, handling cross-filesystem moves by falling back to copy+delete
+ */
+export async function moveFile(src: string, dest: string): Promise<void> {
+  try {
+    // Try rename first (fast, same filesystem)
+    await Deno.rename(src, dest);
+  } catch (error) {
+    // Check if it's a cross-device error (EXDEV)
+    if (error instanceof Error && error.message.includes('cross-device')) {
+      // Fall back to copy + delete
+      await Deno.copyFile(src, dest);
+      await Deno.remove(src);
+    } else {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Write a text file atomically: the content is flushed to a temp file that is
+ * then renamed over `path`, so a crash or full disk leaves the old file intact
+ */
+export async function writeTextFileAtomic(path: string, content: string): Promise<void> {
+  const tempPath = `${path}.tmp`;
+  const data = new TextEncoder().encode(content);
+  const file = await Deno.open(tempPath, { write: true, create: true, truncate: true });
+  try {
+    let written = 0;
+    while (written < data.length) {
+      written += await file.write(data.subarray(written));
+    }
+    await file.syncData();
+  } catch (error) {
+    file.close();
+    await Deno.remove(tempPath).catch(() => {});
+    throw error;
+  }
+  file.close();
+  await Deno.rename(tempPath, path);
+}
+
+/**
+ * Check if a path exists
+ */
+export async function pathExists(path: string): Promise<boolean> {
+  try {
+    await Deno.lstat(path);
+    return true;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return false;
+    }
+    throw error;
+  }
+}
@@ -106,6 +106,29 @@ export function parseBytes(sizeStr: string): number {
   return Math.ceil(value * multipliers[unit]);
 }
 
+/**
+ * Parse a duration string to seconds
+ * @param durationStr - Duration string (e.g., "4h", "1h30m", "90m", "45s"; bare numbers are seconds)
+ * @returns Duration in seconds
+ * @throws Error if format is invalid
+ */
+export function parseDuration(durationStr: string): number {
+  const trimmed = durationStr.trim();
+  if (/^\d+(?:\.\d+)?$/.test(trimmed)) {
+    return parseFloat(trimmed);
+  }
+  if (!/^(?:\d+(?:\.\d+)?\s*[dhms]\s*)+$/i.test(trimmed)) {
+    throw new Error(`Invalid duration format: ${durationStr}`);
+  }
+
+  const multipliers: Record<string, number> = { d: 86400, h: 3600, m: 60, s: 1 };
+  let seconds = 0;
+  for (const [, value, unit] of trimmed.matchAll(/(\d+(?:\.\d+)?)\s*([dhms])/gi)) {
+    seconds += parseFloat(value) * multipliers[unit.toLowerCase()];
+  }
+  return seconds;
+}
+
 /**
  * Format a number with commas as thousands separators
  * @param num - Number to format
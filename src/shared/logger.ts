@@ -32,6 +32,7 @@ export class Logger {
   private level: LogLevel;
   private useColors: boolean;
   private prefix: string;
+  private jobProgressSteps = new Map<string, number>();
 
   constructor(options: LoggerOptions = {}) {
     this.level = options.level ?? 'info';
@@ -124,6 +125,31 @@ export class Logger {
     }
   }
 
+  /**
+   * Log percent-complete progress for a long-running job (always shown)
+   * On a terminal the line is redrawn in place; otherwise only every 10% step is logged
+   */
+  jobProgress(label: string, percent: number, detail: string): void {
+    const rounded = Math.max(0, Math.min(100, Math.floor(percent)));
+    const bar = this.createProgressBar(rounded);
+    const formattedMessage = `${bar} ${rounded}% ${label} ${detail}`;
+
+    if (this.useColors) {
+      Deno.stdout.writeSync(new TextEncoder().encode(`\r\x1b[K${formattedMessage}`));
+      return;
+    }
+
+    const step = Math.floor(rounded / 10);
+    const lastStep = this.jobProgressSteps.get(label);
+    if (lastStep !== undefined && step <= lastStep) return;
+
+    this.jobProgressSteps.set(label, step);
+    if (rounded >= 100) {
+      this.jobProgressSteps.delete(label);
+    }
+    console.log(this.formatMessage('info', formattedMessage));
+  }
+
   /** End progress line */
   progressEnd(): void {
     if (this.useColors) {
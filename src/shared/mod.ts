@@ -46,12 +46,20 @@ export {
   type LoggerOptions,
 } from './logger.ts';
 
+// File utilities
+export { moveFile, pathExists } from './files.ts';
+
 // Process utilities
 export {
   acquireLock,
   releaseLock,
   Semaphore,
   runWithConcurrency,
+  WeightedScheduler,
+  runWithCapacity,
+  ProcessRegistry,
+  getProcessRegistry,
+  type TrackedProcess,
   setupSignalHandlers,
   checkCommand,
   checkFFmpegDependencies,
@@ -107,6 +107,101 @@ export class Semaphore {
   }
 }
 
+/** Times a waiting job may be overtaken by smaller ones before it blocks them */
+export const MAX_OVERTAKES = 3;
+
+/**
+ * Capacity budget for jobs of different cost
+ * Jobs start in order while their cost fits in the capacity left; smaller jobs
+ * further back may start around a large one that doesn't fit yet, until it has
+ * been overtaken MAX_OVERTAKES times. A job costing more than the whole
+ * capacity runs alone.
+ */
+export class WeightedScheduler {
+  private used = 0;
+  private running = 0;
+  private waitQueue: Array<{ cost: number; overtaken: number; resolve: () => void }> = [];
+
+  constructor(public capacity: number, public maxJobs = Infinity) {}
+
+  /** Check whether a job of this cost could start now */
+  fits(cost: number): boolean {
+    if (this.running >= this.maxJobs) return false;
+    return this.running === 0 || this.used + Math.min(cost, this.capacity) <= this.capacity;
+  }
+
+  /** Wait until a job of this cost may start and reserve its share */
+  acquire(cost: number): Promise<void> {
+    return new Promise((resolve) => {
+      this.waitQueue.push({ cost, overtaken: 0, resolve });
+      this.drain();
+    });
+  }
+
+  /** Give back the share of a finished job */
+  release(cost: number): void {
+    this.used = Math.max(0, this.used - Math.min(cost, this.capacity));
+    this.running--;
+    this.drain();
+  }
+
+  /** Total cost of the running jobs */
+  get inUse(): number {
+    return this.used;
+  }
+
+  private reserve(cost: number): void {
+    this.used += Math.min(cost, this.capacity);
+    this.running++;
+  }
+
+  private drain(): void {
+    for (let i = 0; i < this.waitQueue.length;) {
+      const waiter = this.waitQueue[i];
+      if (this.fits(waiter.cost)) {
+        this.waitQueue.splice(i, 1);
+        this.reserve(waiter.cost);
+        for (const skipped of this.waitQueue.slice(0, i)) {
+          skipped.overtaken++;
+        }
+        waiter.resolve();
+        continue;
+      }
+      if (waiter.overtaken >= MAX_OVERTAKES) {
+        break;
+      }
+      i++;
+    }
+  }
+}
+
+/**
+ * Run tasks within a capacity budget, each weighted by its cost
+ */
+export async function runWithCapacity<T, R>(
+  items: T[],
+  scheduler: WeightedScheduler,
+  getCost: (item: T) => number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = [];
+
+  const tasks = items.map(async (item, index) => {
+    const cost = getCost(item);
+    await scheduler.acquire(cost);
+    try {
+      const result = await task(item, index);
+      results[index] = result;
+      return result;
+    } finally {
+      scheduler.release(cost);
+    }
+  });
+
+  await Promise.all(tasks);
+  return results;
+}
+
 /**
  * Run tasks concurrently with a limit
  */
@@ -133,13 +228,201 @@ export async function runWithConcurrency<T, R>(
   return results;
 }
 
+/** What a tracked process is doing */
+export type ProcessKind = 'transcode' | 'verify' | 'sample' | 'probe' | 'other';
+
+/** A spawned child process tracked for shutdown */
+export interface TrackedProcess {
+  child: Deno.ChildProcess;
+  /** What the process is working on (e.g. the source file path) */
+  label: string;
+  kind: ProcessKind;
+  /** Source media file the process belongs to, if any */
+  source?: string;
+  /** Partial output files to remove if the process is killed */
+  partialOutputs: string[];
+  startedAt: Date;
+  /** Stopped with SIGSTOP until resumed */
+  suspended: boolean;
+}
+
+/**
+ * Registry of spawned child processes
+ * Lets a signal handler stop every running FFmpeg and clean up after it
+ */
+export class ProcessRegistry {
+  private processes = new Set<TrackedProcess>();
+  private shuttingDown = false;
+
+  /** Spawn a command and track it until it exits */
+  spawn(
+    command: Deno.Command,
+    label: string,
+    partialOutputs: string[] = [],
+    kind: ProcessKind = 'other',
+    source?: string,
+  ): Deno.ChildProcess {
+    const child = command.spawn();
+    const tracked: TrackedProcess = {
+      child,
+      label,
+      kind,
+      source,
+      partialOutputs,
+      startedAt: new Date(),
+      suspended: false,
+    };
+    this.processes.add(tracked);
+    child.status.finally(() => this.processes.delete(tracked));
+    return child;
+  }
+
+  /** Spawn a tracked command and collect its output */
+  output(
+    command: Deno.Command,
+    label: string,
+    kind: ProcessKind = 'other',
+    source?: string,
+  ): Promise<Deno.CommandOutput> {
+    return this.spawn(command, label, [], kind, source).output();
+  }
+
+  /** Currently running processes */
+  list(): TrackedProcess[] {
+    return [...this.processes];
+  }
+
+  /**
+   * Stop every running process with SIGSTOP, e.g. while the SoC cools down
+   * Returns the number of processes suspended
+   */
+  suspendAll(): number {
+    let count = 0;
+    for (const tracked of this.processes) {
+      if (tracked.suspended) continue;
+      try {
+        tracked.child.kill('SIGSTOP');
+        tracked.suspended = true;
+        count++;
+      } catch {
+        // Already exited
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Continue every suspended process with SIGCONT
+   * Returns the number of processes resumed
+   */
+  resumeAll(): number {
+    let count = 0;
+    for (const tracked of this.processes) {
+      if (!tracked.suspended) continue;
+      try {
+        tracked.child.kill('SIGCONT');
+        count++;
+      } catch {
+        // Already exited
+      }
+      tracked.suspended = false;
+    }
+    return count;
+  }
+
+  /** Mark the process as shutting down; running jobs should report themselves as interrupted */
+  requestShutdown(): void {
+    this.shuttingDown = true;
+  }
+
+  get isShuttingDown(): boolean {
+    return this.shuttingDown;
+  }
+
+  /**
+   * Terminate every tracked process and remove their partial outputs
+   * Sends SIGTERM first and escalates to SIGKILL after the grace period
+   * Returns the processes that were terminated
+   */
+  async terminateAll(graceMs = 10_000): Promise<TrackedProcess[]> {
+    const running = this.list();
+
+    await Promise.all(running.map(async (tracked) => {
+      logger.info(`Terminating process for: ${tracked.label}`);
+      try {
+        tracked.child.kill('SIGTERM');
+        // A stopped process only handles the SIGTERM once continued
+        if (tracked.suspended) {
+          tracked.child.kill('SIGCONT');
+        }
+      } catch {
+        // Already exited
+      }
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const exited = await Promise.race([
+        tracked.child.status.then(() => true),
+        new Promise<boolean>((resolve) => {
+          timer = setTimeout(() => resolve(false), graceMs);
+        }),
+      ]);
+      clearTimeout(timer);
+
+      if (!exited) {
+        logger.warn(`Process did not exit after ${graceMs}ms, killing: ${tracked.label}`);
+        try {
+          tracked.child.kill('SIGKILL');
+        } catch {
+          // Exited in the meantime
+        }
+        await tracked.child.status;
+      }
+
+      for (const path of tracked.partialOutputs) {
+        try {
+          await Deno.remove(path);
+          logger.debug(`Removed partial output: ${path}`);
+        } catch {
+          // Never created or already cleaned up
+        }
+      }
+    }));
+
+    return running;
+  }
+}
+
+/** Global process registry */
+let processRegistry: ProcessRegistry | null = null;
+
+/**
+ * Get the global process registry
+ */
+export function getProcessRegistry(): ProcessRegistry {
+  if (!processRegistry) {
+    processRegistry = new ProcessRegistry();
+  }
+  return processRegistry;
+}
+
 /**
  * Setup signal handlers for graceful shutdown
+ * A second signal while shutting down forces an immediate exit
  */
 export function setupSignalHandlers(lockFilePath: string, cleanup: () => Promise<void>): void {
   const handleSignal = async (signal: string) => {
+    const registry = getProcessRegistry();
+    if (registry.isShuttingDown) {
+      logger.warn(`Received ${signal} again, exiting immediately`);
+      Deno.exit(1);
+    }
+
+    registry.requestShutdown();
     logger.info(`Received ${signal}, shutting down gracefully...`);
     await cleanup();
+
+    // Stop anything the cleanup handler left running
+    await registry.terminateAll();
     await releaseLock(lockFilePath);
     Deno.exit(0);
   };
@@ -53,6 +53,214 @@ export interface SharedConfig {
 // TRANSCODE MODULE CONFIGURATION
 //═══════════════════════════════════════════════════════════════════════════════
 
+/** Checks run on transcoded output before it replaces the original */
+export interface VerificationConfig {
+  /** Whether to verify output before replacing the original */
+  enabled: boolean;
+  /** Allowed difference between source and output duration (seconds) */
+  durationToleranceSeconds: number;
+  /** Compare audio and subtitle stream counts with the source */
+  checkStreams: boolean;
+  /** Compare output resolution with the target resolution */
+  checkResolution: boolean;
+  /** Decode a few short segments of the output to catch corrupt streams */
+  decodeTest: boolean;
+  /** Number of evenly spaced segments to decode */
+  decodeSegments: number;
+  /** Length of each decoded segment (seconds) */
+  decodeSegmentSeconds: number;
+}
+
+/** Source-relative bitrate cap and the smallest saving worth an encode */
+export interface SavingsConfig {
+  /** Cap the target bitrate at this fraction of the source video bitrate (0 to disable) */
+  sourceBitrateFraction: number;
+  /** Skip files whose predicted saving is below this percentage of the file size */
+  minPercent: number;
+  /** Skip files whose predicted saving is below this many bytes */
+  minBytes: number;
+}
+
+/** Size prediction from sample encodes during analysis */
+export interface PredictionConfig {
+  /** Encode samples of each file to predict its output size and encode time */
+  enabled: boolean;
+  /** Number of evenly spaced samples per file */
+  samples: number;
+  /** Length of each sample (seconds) */
+  sampleSeconds: number;
+}
+
+/** Watch mode (`transcode --watch`) */
+export interface WatchConfig {
+  /** How long a new file's size must stay unchanged before it is analyzed (seconds) */
+  stableSeconds: number;
+  /** Interval of the full rescan that catches missed events (minutes, 0 = never) */
+  rescanMinutes: number;
+}
+
+/** Day of the week, as used in schedule windows */
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+/** A recurring time window in which transcodes may start (local time) */
+export interface ScheduleWindow {
+  /** Days the window starts on (empty = every day) */
+  days: Weekday[];
+  /** Start time ("HH:MM") */
+  start: string;
+  /** End time ("HH:MM"); before `start` for windows that run past midnight */
+  end: string;
+}
+
+/** When transcodes may run */
+export interface ScheduleConfig {
+  /** Allowed windows (empty = any time) */
+  windows: ScheduleWindow[];
+}
+
+/** Order files are transcoded in */
+export type OrderStrategy =
+  | 'largest'
+  | 'savings-rate'
+  | 'newest'
+  | 'directory'
+  | 'shortest'
+  | 'round-robin';
+
+/** Transcode ordering */
+export interface OrderingConfig {
+  /** Strategy used unless `--order` overrides it */
+  strategy: OrderStrategy;
+  /** Directories transcoded first, highest priority first (for the directory strategy) */
+  directoryPriority: string[];
+}
+
+/** Weighted scheduling of concurrent transcodes */
+export interface SchedulerConfig {
+  /** Combined cost of the transcodes allowed to run at once (a 1080p30 hardware transcode costs 1) */
+  capacity: number;
+  /** Cost multiplier for software decoding or encoding */
+  softwareFactor: number;
+}
+
+/** What the governor does while throttled */
+export type ThrottleAction = 'pause' | 'suspend';
+
+/** Throttling when the SoC runs hot or the machine is busy */
+export interface GovernorConfig {
+  enabled: boolean;
+  /** Directory with thermal_zoneN/temp files (millidegrees Celsius) */
+  thermalPath: string;
+  /** Load average file; the 1-minute average is used */
+  loadAvgPath: string;
+  /** Throttle above this temperature (°C, 0 = ignore temperature) */
+  maxTemperature: number;
+  /** Throttle above this 1-minute load average (0 = ignore load) */
+  maxLoad: number;
+  /** Resume once the temperature is this far below the limit (°C) */
+  temperatureHysteresis: number;
+  /** Resume once the load is this far below the limit */
+  loadHysteresis: number;
+  /** pause: start no new jobs; suspend: also stop running FFmpeg processes */
+  action: ThrottleAction;
+  /** How often the sensors are read (seconds) */
+  pollSeconds: number;
+}
+
+/** Probing during the analysis phase */
+export interface ProbeConfig {
+  /** Reuse probe results of files whose size and mtime haven't changed */
+  cache: boolean;
+  /** Path to the probe cache file */
+  cachePath: string;
+  /** Number of files probed in parallel */
+  concurrency: number;
+}
+
+/** Quality metric computed with FFmpeg filters (libvmaf or ssim) */
+export type QualityMetric = 'vmaf' | 'ssim';
+
+/** Target quality score per media type (VMAF 0-100, SSIM 0-1) */
+export interface QualityTargetConfig {
+  tv: number;
+  movie: number;
+  other: number;
+}
+
+/** Quality mode: calibrate each file's bitrate on short sample encodes */
+export interface QualityConfig {
+  /** Calibrate bitrates instead of using the bitrate tiers as-is */
+  enabled: boolean;
+  /** Metric the samples are scored with */
+  metric: QualityMetric;
+  /** Lowest acceptable mean sample score per media type */
+  targets: QualityTargetConfig;
+  /** Candidate bitrates as fractions of the target bitrate, tried lowest first */
+  bitrateSteps: number[];
+  /** Number of evenly spaced samples per file */
+  samples: number;
+  /** Length of each sample (seconds) */
+  sampleSeconds: number;
+}
+
+/** Where replaced originals are kept so a bad encode can be undone */
+export interface QuarantineConfig {
+  /** Keep replaced originals instead of deleting them */
+  enabled: boolean;
+  /** Directory holding quarantined originals */
+  directory: string;
+  /** Days to keep a quarantined original before it expires */
+  retentionDays: number;
+  /** Maximum total size of the quarantine (e.g. "500GB"), empty for no limit */
+  maxSize: string;
+}
+
+/** Codecs audio tracks can be converted to */
+export type AudioCodec = 'aac' | 'opus' | 'eac3';
+
+/** How audio tracks are selected and converted for one media type */
+export interface AudioPolicy {
+  /** Copy lossy tracks (AAC, AC-3, E-AC-3, MP3, Opus, Vorbis) as they are */
+  keepLossy: boolean;
+  /** Convert lossless and DTS tracks (TrueHD, DTS/DTS-HD, FLAC, PCM) */
+  convertLossless: boolean;
+  /** Codec for converted tracks */
+  codec: AudioCodec;
+  /** Bitrate of each converted track (e.g. "640k") */
+  bitrate: string;
+  /** Maximum channels per track, 0 for no limit; tracks above it are converted */
+  maxChannels: number;
+  /** Languages to keep (ISO 639-2, e.g. "eng"), empty to keep all */
+  languages: string[];
+  /** Also keep tracks in the original language (the default or first audio track) */
+  keepOriginalLanguage: boolean;
+  /** Keep commentary tracks */
+  keepCommentary: boolean;
+}
+
+/** Audio policy per media type */
+export interface AudioPolicyConfig {
+  tv: AudioPolicy;
+  movie: AudioPolicy;
+  other: AudioPolicy;
+}
+
+/** What to do with HDR sources: keep HDR in Main10 output, tone-map to SDR, or leave them alone */
+export type HdrPolicy = 'preserve' | 'tonemap' | 'skip';
+
+/** HDR policy per media type */
+export interface HdrPolicyConfig {
+  tv: HdrPolicy;
+  movie: HdrPolicy;
+  other: HdrPolicy;
+}
+
+/** Output container: keep the source's when it can hold HEVC, or always MKV / MP4 */
+export type OutputContainerPolicy = 'keep' | 'mkv' | 'mp4';
+
+/** FFmpeg encoder backends */
+export type EncoderName = 'rkmpp' | 'libx265' | 'libsvtav1' | 'vaapi' | 'qsv' | 'nvenc';
+
 /** Transcode-specific configuration */
 export interface TranscodeModuleConfig {
   /** Path to the transcoding database file */
@@ -61,6 +269,10 @@ export interface TranscodeModuleConfig {
   errorLogPath: string;
   /** Lock file path for singleton execution */
   lockFilePath: string;
+  /** Write-ahead journal of in-progress file replacements */
+  journalPath: string;
+  /** Persisted queue of transcode jobs */
+  queuePath: string;
   /** Maximum height for TV shows (720p = 720) */
   tvMaxHeight: number;
   /** Maximum height for movies (1080p = 1080) */
@@ -71,6 +283,38 @@ export interface TranscodeModuleConfig {
   exclusions?: ExclusionRules;
   /** Whether to use hardware acceleration */
   useHardwareAccel: boolean;
+  /** Encoder backend, or 'auto' to pick the best available at startup */
+  encoder: EncoderName | 'auto';
+  /** Render node used by VAAPI and QSV backends */
+  hwDevice: string;
+  /** Audio track selection and conversion per media type */
+  audio: AudioPolicyConfig;
+  /** Container of transcoded files */
+  outputContainer: OutputContainerPolicy;
+  /** HDR handling per media type */
+  hdr: HdrPolicyConfig;
+  /** Bitrate cap and minimum savings thresholds */
+  savings: SavingsConfig;
+  /** Sample-based size prediction */
+  prediction: PredictionConfig;
+  /** Sample-based quality calibration */
+  quality: QualityConfig;
+  /** Probe cache and parallel probing */
+  probe: ProbeConfig;
+  /** Watch mode settings */
+  watch: WatchConfig;
+  /** Allowed time windows */
+  schedule: ScheduleConfig;
+  /** Thermal and load throttling */
+  governor: GovernorConfig;
+  /** Weighted scheduling of concurrent transcodes */
+  scheduler: SchedulerConfig;
+  /** Order files are transcoded in */
+  ordering: OrderingConfig;
+  /** Output verification settings */
+  verification: VerificationConfig;
+  /** Quarantine settings for replaced originals */
+  quarantine: QuarantineConfig;
 }
 
 //═══════════════════════════════════════════════════════════════════════════════
@@ -191,6 +435,8 @@ export interface LegacyTranscodeConfig {
   databasePath: string;
   errorLogPath: string;
   lockFilePath: string;
+  journalPath: string;
+  queuePath: string;
   maxConcurrency: number;
   tvMaxHeight: number;
   movieMaxHeight: number;
@@ -200,6 +446,22 @@ export interface LegacyTranscodeConfig {
   ffmpegPath: string;
   ffprobePath: string;
   useHardwareAccel: boolean;
+  encoder: EncoderName | 'auto';
+  hwDevice: string;
+  audio: AudioPolicyConfig;
+  outputContainer: OutputContainerPolicy;
+  hdr: HdrPolicyConfig;
+  savings: SavingsConfig;
+  prediction: PredictionConfig;
+  quality: QualityConfig;
+  probe: ProbeConfig;
+  watch: WatchConfig;
+  schedule: ScheduleConfig;
+  governor: GovernorConfig;
+  scheduler: SchedulerConfig;
+  ordering: OrderingConfig;
+  verification: VerificationConfig;
+  quarantine: QuarantineConfig;
   dryRun: boolean;
 }
 
@@ -29,6 +29,7 @@ import {
   toLegacySyncConfig,
   DEFAULT_SYNC_CONFIG,
 } from '../shared/config.ts';
+import { formatDuration } from '../shared/format.ts';
 
 /**
  * Default sync configuration
@@ -87,9 +88,13 @@ function displayProgress(progress: SyncProgress): void {
   const emoji = statusEmoji[progress.status] || '•';
   const progressBar = createProgressBar(progress.progress, 30);
 
+  const eta = progress.eta !== undefined && progress.status === 'transcoding'
+    ? ` (ETA ${formatDuration(progress.eta)})`
+    : '';
+
   // Clear line and print progress
   Deno.stdout.writeSync(new TextEncoder().encode(
-    `\r${emoji} ${progress.title.substring(0, 30).padEnd(30)} ${progressBar} ${progress.progress}% - ${progress.currentStep}`
+    `\r\x1b[K${emoji} ${progress.title.substring(0, 30).padEnd(30)} ${progressBar} ${progress.progress}% - ${progress.currentStep}${eta}`
   ));
 
   if (progress.status === 'complete' || progress.status === 'failed') {
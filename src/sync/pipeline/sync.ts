@@ -3,7 +3,7 @@
  * Orchestrates the complete sync process
  */
 
-import { join, basename, dirname, extname } from 'https://deno.land/std@0.224.0/path/mod.ts';
+import { join, basename, dirname } from 'https://deno.land/std@0.224.0/path/mod.ts';
 import type {
   SyncConfig,
   SyncItem,
@@ -21,9 +21,15 @@ import { updateEstimatedSizes } from '../space/estimator.ts';
 import { createAllocationPlan, printAllocationPlan } from '../space/allocator.ts';
 import { fetchMovieMetadata, fetchTVShowMetadata } from '../metadata/fetcher.ts';
 import { copyFileWithProgress, moveFile, ensureDir, cleanupTempDir } from './copier.ts';
-import { transcodeFile } from '../../transcode/transcoder.ts';
-import type { Config, MediaFile } from '../../transcode/types.ts';
-import { probeMediaFile } from '../../transcode/ffprobe.ts';
+import {
+  estimateJobCost,
+  transcodeFile,
+  type TranscodeResult,
+} from '../../transcode/transcoder.ts';
+import type { Config, MediaFile, TranscodeProgress } from '../../transcode/types.ts';
+import { parseFrameRate, probeMediaFile } from '../../transcode/ffprobe.ts';
+import { selectTargetBitrate } from '../../transcode/bitrate.ts';
+import { runWithConcurrency, WeightedScheduler } from '../../shared/process.ts';
 
 /** Sync pipeline state */
 interface SyncState {
@@ -33,6 +39,8 @@ interface SyncState {
   allocationPlan: AllocationPlan;
   results: SyncResult[];
   startTime: Date;
+  /** Capacity budget shared by the transcodes of concurrently synced items */
+  scheduler: WeightedScheduler;
 }
 
 /** Initialize sync pipeline */
@@ -57,6 +65,7 @@ export async function initializeSyncPipeline(
       warnings: [],
     },
     results: [],
+    scheduler: new WeightedScheduler(transcoderConfig.scheduler.capacity),
     startTime: new Date(),
   };
 }
@@ -134,7 +143,7 @@ async function createMediaFileFromPath(
   const targetHeight = mediaType === 'tv' ? config.tvMaxHeight : config.movieMaxHeight;
   const targetWidth = Math.round((width / height) * targetHeight);
 
-  return {
+  const file: MediaFile = {
     path: sourcePath,
     type: mediaType === 'tv' ? 'tv' : 'movie',
     codec: probeResult.video?.codec_name || 'unknown',
@@ -143,10 +152,36 @@ async function createMediaFileFromPath(
     size: probeResult.fileSize,
     duration: probeResult.duration,
     bitrate: probeResult.video?.bit_rate ? parseInt(probeResult.video.bit_rate, 10) : undefined,
+    frameRate: parseFrameRate(probeResult.video?.r_frame_rate),
     needsTranscode: true,
     targetWidth: Math.min(targetWidth, width),
     targetHeight: Math.min(targetHeight, height),
+    streams: probeResult.streams,
+    color: probeResult.color ?? undefined,
   };
+  file.targetBitrate = selectTargetBitrate(file, config);
+  return file;
+}
+
+/** Transcode a file once its cost fits in the shared capacity budget */
+async function runScheduledTranscode(
+  state: SyncState,
+  file: MediaFile,
+  config: Config,
+  onProgress: (progress: TranscodeProgress) => void
+): Promise<TranscodeResult> {
+  const cost = estimateJobCost(file, config);
+  await state.scheduler.acquire(cost);
+  try {
+    return await transcodeFile(file, config, onProgress);
+  } finally {
+    state.scheduler.release(cost);
+  }
+}
+
+/** Get where the transcoder left a file it replaced in place */
+function getTranscodedPath(result: TranscodeResult, tempPath: string): string {
+  return result.record?.outputPath ?? tempPath;
 }
 
 /** Process a single sync item */
@@ -190,9 +225,11 @@ async function processSyncItem(
     await ensureDir(tempDir);
 
     // Create a modified config with our temp directory
+    // The transcoder replaces a throwaway copy here, so there is nothing worth quarantining
     const transcodeConfig: Config = {
       ...state.transcoderConfig,
       tempDir: tempDir,
+      quarantine: { ...state.transcoderConfig.quarantine, enabled: false },
     };
 
     try {
@@ -220,10 +257,16 @@ async function processSyncItem(
         // Create MediaFile for the transcoder
         const mediaFile = await createMediaFileFromPath(tempPath, 'movie', transcodeConfig);
 
-        // Transcode using the existing system
-        const transcodeResult = await transcodeFile(mediaFile, transcodeConfig);
+        // Transcode using the existing system (transcoding spans 25-75%)
+        const transcodeResult = await runScheduledTranscode(state, mediaFile, transcodeConfig, (transcodeProgress) => {
+          progress.progress = 25 + Math.floor(transcodeProgress.percent / 2);
+          progress.eta = transcodeProgress.etaSeconds;
+          progress.currentStep = `Transcoding... ${transcodeProgress.speed.toFixed(2)}x`;
+          progressCallback?.(progress);
+        });
 
-        if (!transcodeResult.success) {
+        // Files the HDR policy leaves alone are synced as they are
+        if (!transcodeResult.success && !transcodeResult.skipped) {
           throw new Error(transcodeResult.error || 'Transcode failed');
         }
 
@@ -241,26 +284,14 @@ async function processSyncItem(
         progress.progress = 90;
         progressCallback?.(progress);
 
-        // Find the transcoded output file (the transcoder creates it in tempDir)
-        let transcodedFile: string | null = null;
-        for await (const entry of Deno.readDir(tempDir)) {
-          if (entry.isFile && entry.name.endsWith('.transcoding.mkv')) {
-            transcodedFile = join(tempDir, entry.name);
-            break;
-          }
-        }
-
-        if (!transcodedFile) {
-          throw new Error('Transcoded file not found');
-        }
-
-        const outputFilename = basename(item.sourcePath, extname(item.sourcePath)) + '.mkv';
-        const finalPath = join(destDir, outputFilename);
+        // The transcoder replaced the temp copy in place (renamed if the container changed)
+        const transcodedFile = getTranscodedPath(transcodeResult, tempPath);
+        const finalPath = join(destDir, basename(transcodedFile));
         await moveFile(transcodedFile, finalPath);
 
         // Move metadata files
         for await (const entry of Deno.readDir(tempDir)) {
-          if (entry.isFile && !entry.name.includes('.transcoding') && entry.name !== basename(item.sourcePath)) {
+          if (entry.isFile && !entry.name.includes('.transcoding')) {
             const srcPath = join(tempDir, entry.name);
             const dstPath = join(destDir, entry.name);
             try {
@@ -305,30 +336,24 @@ async function processSyncItem(
           // Create MediaFile for the transcoder
           const mediaFile = await createMediaFileFromPath(tempEpisodePath, 'tv', transcodeConfig);
 
-          // Transcode episode
+          // Transcode episode (each episode owns an equal slice of the 0-75% range)
           progress.status = 'transcoding';
-          const transcodeResult = await transcodeFile(mediaFile, transcodeConfig);
-
-          if (!transcodeResult.success) {
+          const episodeSpan = 75 / item.episodes!.length;
+          const transcodeResult = await runScheduledTranscode(state, mediaFile, transcodeConfig, (transcodeProgress) => {
+            progress.progress = Math.floor(episodeProgress + (transcodeProgress.percent / 100) * episodeSpan);
+            progress.eta = transcodeProgress.etaSeconds;
+            progress.currentStep =
+              `Transcoding episode ${episode.episodeNumber}... ${transcodeProgress.speed.toFixed(2)}x`;
+            progressCallback?.(progress);
+          });
+
+          if (!transcodeResult.success && !transcodeResult.skipped) {
             throw new Error(`Episode ${episode.episodeNumber} transcode failed: ${transcodeResult.error}`);
           }
 
-          // Find the transcoded output file
-          let transcodedFile: string | null = null;
-          for await (const entry of Deno.readDir(tempDir)) {
-            if (entry.isFile && entry.name.includes('.transcoding.mkv')) {
-              transcodedFile = join(tempDir, entry.name);
-              break;
-            }
-          }
-
-          if (!transcodedFile) {
-            throw new Error(`Transcoded file not found for episode ${episode.episodeNumber}`);
-          }
-
           // Move to destination
-          const outputFilename = basename(episode.path, extname(episode.path)) + '.mkv';
-          const finalPath = join(destDir, outputFilename);
+          const transcodedFile = getTranscodedPath(transcodeResult, tempEpisodePath);
+          const finalPath = join(destDir, basename(transcodedFile));
           await moveFile(transcodedFile, finalPath);
 
           const finalStat = await Deno.stat(finalPath);
@@ -382,28 +407,31 @@ export async function runSyncPhase(
   state: SyncState,
   progressCallback?: SyncProgressCallback
 ): Promise<SyncResult[]> {
-  const results: SyncResult[] = [];
+  const jobs = state.allocationPlan.allocations.flatMap((allocation) =>
+    allocation.allocatedItems.map((item) => ({ item, allocation }))
+  );
 
-  for (const allocation of state.allocationPlan.allocations) {
-    for (const item of allocation.allocatedItems) {
-      if (state.config.dryRun) {
-        console.log(`[DRY RUN] Would sync: ${item.title} to ${allocation.drive.label}`);
-        results.push({
-          itemId: item.id,
-          success: true,
-          destPath: join(allocation.drive.path, item.title),
-          transcodedSize: item.estimatedSize,
-          duration: 0,
-        });
-      } else {
-        const result = await processSyncItem(item, allocation, state, progressCallback);
-        results.push(result);
-      }
-    }
+  if (state.config.dryRun) {
+    state.results = jobs.map(({ item, allocation }) => {
+      console.log(`[DRY RUN] Would sync: ${item.title} to ${allocation.drive.label}`);
+      return {
+        itemId: item.id,
+        success: true,
+        destPath: join(allocation.drive.path, item.title),
+        transcodedSize: item.estimatedSize,
+        duration: 0,
+      };
+    });
+    return state.results;
   }
 
-  state.results = results;
-  return results;
+  // Copies run maxConcurrency items at a time; their transcodes share the capacity budget
+  state.results = await runWithConcurrency(
+    jobs,
+    state.config.maxConcurrency,
+    ({ item, allocation }) => processSyncItem(item, allocation, state, progressCallback)
+  );
+  return state.results;
 }
 
 /** Generate sync summary */
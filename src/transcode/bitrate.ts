@@ -0,0 +1,118 @@
+/**
+ * Bitrate module for danger-transcode
+ * Picks the target video bitrate from the resolution tier and the source
+ * bitrate, and predicts whether an encode saves enough to be worth running
+ */
+
+import type { Config, MediaFile } from './types.ts';
+import { formatBitrate, formatFileSize, parseBitrate } from './ffprobe.ts';
+
+/**
+ * Get the configured bitrate tier for a target height
+ */
+export function getTierBitrate(height: number, config: Config): string {
+  if (height <= 720) {
+    return config.bitrates.low;
+  } else if (height <= 1080) {
+    return config.bitrates.medium;
+  }
+  return config.bitrates.high;
+}
+
+/**
+ * Get the source video bitrate (bits per second)
+ * Falls back to the overall bitrate from size and duration, minus the
+ * audio and subtitle streams that report a bitrate
+ */
+export function getSourceVideoBitrate(file: MediaFile): number | null {
+  if (file.bitrate && file.bitrate > 0) {
+    return file.bitrate;
+  }
+  if (!file.duration || file.duration <= 0 || file.size <= 0) {
+    return null;
+  }
+
+  const overall = (file.size * 8) / file.duration;
+  const otherStreams = (file.streams ?? [])
+    .filter((stream) => stream.codecType !== 'video')
+    .reduce((total, stream) => total + (stream.bitrate ?? 0), 0);
+  const video = overall - otherStreams;
+  return video > 0 ? Math.round(video) : Math.round(overall);
+}
+
+/**
+ * Get the target video bitrate: the tier bitrate, capped at a fraction of the source
+ */
+export function selectTargetBitrate(file: MediaFile, config: Config): number {
+  const tier = parseBitrate(getTierBitrate(file.targetHeight ?? file.height, config));
+  const source = getSourceVideoBitrate(file);
+  const fraction = config.savings.sourceBitrateFraction;
+  if (!source || fraction <= 0) {
+    return tier;
+  }
+  return Math.min(tier, Math.round(source * fraction));
+}
+
+/**
+ * Get the bitrate to hand FFmpeg (e.g. "3200k")
+ */
+export function getTargetBitrate(file: MediaFile, config: Config): string {
+  if (file.targetBitrate) {
+    return `${Math.round(file.targetBitrate / 1000)}k`;
+  }
+  return getTierBitrate(file.targetHeight ?? file.height, config);
+}
+
+/**
+ * Predict the transcoded file size in bytes, or null without a duration
+ * Streams other than the main video are assumed to keep their size
+ */
+export function predictOutputSize(file: MediaFile, targetBitrate: number): number | null {
+  const source = getSourceVideoBitrate(file);
+  if (!file.duration || file.duration <= 0 || !source) {
+    return null;
+  }
+  const sourceVideoBytes = Math.min(file.size, (source * file.duration) / 8);
+  const targetVideoBytes = (targetBitrate * file.duration) / 8;
+  return Math.round(file.size - sourceVideoBytes + targetVideoBytes);
+}
+
+/**
+ * Describe a predicted saving below the configured thresholds (e.g. "8% (120.0 MB)"),
+ * or return null when it is large enough
+ */
+export function describeSmallSaving(size: number, predicted: number, config: Config): string | null {
+  if (size <= 0) {
+    return null;
+  }
+
+  const saving = size - predicted;
+  const percent = (saving / size) * 100;
+  const { minPercent, minBytes } = config.savings;
+  if (percent >= minPercent && saving >= minBytes) {
+    return null;
+  }
+  return `${Math.max(0, Math.round(percent))}% (${formatFileSize(Math.max(0, saving))})`;
+}
+
+/**
+ * Get the skip reason for a file whose predicted saving is below the configured
+ * thresholds, or null when the encode is worth running (or can't be predicted)
+ */
+export function getSavingsSkipReason(file: MediaFile, config: Config): string | null {
+  const targetBitrate = file.targetBitrate ?? selectTargetBitrate(file, config);
+  const predicted = predictOutputSize(file, targetBitrate);
+  if (predicted === null) {
+    return null;
+  }
+
+  const shortfall = describeSmallSaving(file.size, predicted, config);
+  if (!shortfall) {
+    return null;
+  }
+
+  const source = getSourceVideoBitrate(file) ?? 0;
+  return `Predicted saving too small: ${shortfall}, ${formatBitrate(source)} source -> ${
+    formatBitrate(targetBitrate)
+  }`;
+}
@@ -0,0 +1,251 @@
+/**
+ * Probe cache module for danger-transcode
+ * Keeps ffprobe results, analysis decisions and sample encode predictions
+ * between runs, keyed by path and checked against size and mtime, so unchanged
+ * files aren't probed or predicted again
+ */
+
+import { dirname } from '@std/path';
+import { ensureDir } from '@std/fs';
+import type { Config, MediaFile, SizePrediction } from './types.ts';
+import type { ProbeResult } from './ffprobe.ts';
+import { writeTextFileAtomic } from '../shared/files.ts';
+import { getLogger } from './logger.ts';
+
+const logger = getLogger().child('cache');
+
+const PROBE_CACHE_VERSION = 1;
+
+/** A cached probe of one file */
+export interface ProbeCacheEntry {
+  size: number;
+  /** Modification time (ms since epoch) */
+  mtime: number;
+  probe: ProbeResult;
+  /** Skip reason from the analysis, or null when the file was to be transcoded */
+  skipReason: string | null;
+  /** Sample encode prediction, once the file was predicted */
+  prediction?: CachedPrediction;
+}
+
+/** A cached sample encode prediction and the decision made from it */
+export interface CachedPrediction {
+  /** Settings and target the samples were encoded with */
+  settingsKey: string;
+  prediction: SizePrediction;
+  /** Skip reason from the predicted saving, or null to transcode the file */
+  skipReason: string | null;
+}
+
+/** Probe cache file contents */
+interface ProbeCacheFile {
+  version: number;
+  /** Settings the cached skip reasons were decided with */
+  settingsKey: string;
+  entries: Record<string, ProbeCacheEntry>;
+}
+
+/** Probe cache loaded for a scan */
+export interface ProbeCache {
+  path: string;
+  settingsKey: string;
+  entries: Map<string, ProbeCacheEntry>;
+  /** Paths looked up this scan; the rest are dropped on save */
+  seen: Set<string>;
+  changed: boolean;
+  hits: number;
+  misses: number;
+}
+
+/** A file looked up in the cache, with its current stat data */
+export interface CacheCandidate {
+  path: string;
+  size: number;
+  mtime: number;
+}
+
+/**
+ * Get a key for the settings an analysis decision depends on
+ * Cached skip reasons decided with other settings are ignored
+ */
+export function getAnalysisSettingsKey(config: Config): string {
+  return JSON.stringify({
+    tvMaxHeight: config.tvMaxHeight,
+    movieMaxHeight: config.movieMaxHeight,
+    bitrates: config.bitrates,
+    hdr: config.hdr,
+    savings: config.savings,
+    // Savings are only decided during analysis without quality calibration
+    quality: config.quality.enabled,
+  });
+}
+
+/**
+ * Get a key for what a file's sample encodes depend on, including its
+ * (possibly calibrated) target bitrate
+ */
+export function getPredictionSettingsKey(file: MediaFile, config: Config): string {
+  return JSON.stringify({
+    targetBitrate: file.targetBitrate,
+    targetWidth: file.targetWidth,
+    targetHeight: file.targetHeight,
+    encoder: config.encoder,
+    hdr: config.hdr,
+    prediction: config.prediction,
+    savings: config.savings,
+  });
+}
+
+/**
+ * Load the probe cache, starting empty when it is missing, unreadable or disabled
+ */
+export async function loadProbeCache(config: Config): Promise<ProbeCache> {
+  const cache: ProbeCache = {
+    path: config.probe.cachePath,
+    settingsKey: getAnalysisSettingsKey(config),
+    entries: new Map(),
+    seen: new Set(),
+    changed: false,
+    hits: 0,
+    misses: 0,
+  };
+  if (!config.probe.cache) {
+    return cache;
+  }
+
+  let file: ProbeCacheFile;
+  try {
+    file = JSON.parse(await Deno.readTextFile(cache.path)) as ProbeCacheFile;
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) {
+      logger.warn(`Ignoring unreadable probe cache: ${cache.path}`, error);
+    }
+    return cache;
+  }
+  if (file.version !== PROBE_CACHE_VERSION) {
+    return cache;
+  }
+
+  const settingsChanged = file.settingsKey !== cache.settingsKey;
+  for (const [path, entry] of Object.entries(file.entries)) {
+    // Probes stay valid; only the decisions depend on the settings
+    cache.entries.set(path, settingsChanged ? { ...entry, skipReason: null } : entry);
+  }
+  if (settingsChanged) {
+    cache.changed = true;
+    logger.info('Analysis settings changed, re-deciding cached probes');
+  }
+
+  logger.debug(`Loaded probe cache with ${cache.entries.size} entries`);
+  return cache;
+}
+
+/**
+ * Get the cached probe of a file, or null when it changed since or was never probed
+ */
+export function getCachedProbe(cache: ProbeCache, file: CacheCandidate): ProbeCacheEntry | null {
+  cache.seen.add(file.path);
+  const entry = cache.entries.get(file.path);
+  if (entry && entry.size === file.size && entry.mtime === file.mtime) {
+    cache.hits++;
+    return entry;
+  }
+  cache.misses++;
+  return null;
+}
+
+/**
+ * Store a file's probe and analysis decision
+ */
+export function setCachedProbe(
+  cache: ProbeCache,
+  file: CacheCandidate,
+  probe: ProbeResult,
+  skipReason: string | null,
+): void {
+  cache.seen.add(file.path);
+  // A new decision for an unchanged file keeps its prediction; the settings key checks it
+  const previous = cache.entries.get(file.path);
+  const prediction = previous && previous.size === file.size && previous.mtime === file.mtime
+    ? previous.prediction
+    : undefined;
+  cache.entries.set(file.path, {
+    size: file.size,
+    mtime: file.mtime,
+    probe,
+    skipReason,
+    prediction,
+  });
+  cache.changed = true;
+}
+
+/**
+ * Get a file's cached prediction, or null when it changed since or was
+ * predicted with other settings
+ */
+export function getCachedPrediction(
+  cache: ProbeCache,
+  file: MediaFile,
+  config: Config,
+): CachedPrediction | null {
+  const entry = cache.entries.get(file.path);
+  if (!entry?.prediction || entry.size !== file.size || entry.mtime !== file.mtime) {
+    return null;
+  }
+  return entry.prediction.settingsKey === getPredictionSettingsKey(file, config)
+    ? entry.prediction
+    : null;
+}
+
+/**
+ * Store a file's prediction and the decision made from it
+ * Files without a cached probe aren't stored, as entries need one
+ */
+export function setCachedPrediction(
+  cache: ProbeCache,
+  file: MediaFile,
+  config: Config,
+  prediction: SizePrediction,
+  skipReason: string | null,
+): void {
+  const entry = cache.entries.get(file.path);
+  if (!entry || entry.size !== file.size || entry.mtime !== file.mtime) {
+    return;
+  }
+  entry.prediction = {
+    settingsKey: getPredictionSettingsKey(file, config),
+    prediction,
+    skipReason,
+  };
+  cache.changed = true;
+}
+
+/**
+ * Save the probe cache, dropping entries for files not seen this scan
+ */
+export async function saveProbeCache(config: Config, cache: ProbeCache): Promise<void> {
+  if (!config.probe.cache) {
+    return;
+  }
+
+  for (const path of cache.entries.keys()) {
+    if (!cache.seen.has(path)) {
+      cache.entries.delete(path);
+      cache.changed = true;
+    }
+  }
+  if (!cache.changed) {
+    return;
+  }
+
+  const file: ProbeCacheFile = {
+    version: PROBE_CACHE_VERSION,
+    settingsKey: cache.settingsKey,
+    entries: Object.fromEntries(cache.entries),
+  };
+  await ensureDir(dirname(cache.path));
+  await writeTextFileAtomic(cache.path, JSON.stringify(file));
+  cache.changed = false;
+
+  logger.debug(`Saved probe cache with ${cache.entries.size} entries`);
+}
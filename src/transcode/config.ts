@@ -11,6 +11,7 @@ import {
   getDefaultConfigPaths as sharedGetDefaultConfigPaths,
   DEFAULT_UNIFIED_CONFIG,
 } from '../shared/config.ts';
+import { validateSchedule } from './schedule.ts';
 import { VIDEO_EXTENSIONS, DEFAULT_EXCLUSION_DIRS, DEFAULT_EXCLUSION_PATTERNS } from '../shared/constants.ts';
 
 /** Default configuration values (derived from shared defaults) */
@@ -61,6 +62,24 @@ export function loadConfigFromEnv(baseConfig: Config = DEFAULT_CONFIG): Config {
   const hwAccel = Deno.env.get('TRANSCODE_HW_ACCEL');
   if (hwAccel !== undefined) config.useHardwareAccel = hwAccel !== 'false' && hwAccel !== '0';
 
+  // Encoder backend
+  const encoder = Deno.env.get('TRANSCODE_ENCODER');
+  if (encoder) config.encoder = encoder as Config['encoder'];
+
+  // Output container
+  const outputContainer = Deno.env.get('TRANSCODE_OUTPUT_CONTAINER');
+  if (outputContainer) config.outputContainer = outputContainer as Config['outputContainer'];
+
+  // Minimum savings
+  const minSavings = Deno.env.get('TRANSCODE_MIN_SAVINGS_PERCENT');
+  if (minSavings) config.savings = { ...config.savings, minPercent: parseFloat(minSavings) || 0 };
+
+  // Probe concurrency
+  const probeConcurrency = Deno.env.get('TRANSCODE_PROBE_CONCURRENCY');
+  if (probeConcurrency) {
+    config.probe = { ...config.probe, concurrency: parseInt(probeConcurrency, 10) || 1 };
+  }
+
   // Dry run
   const dryRun = Deno.env.get('TRANSCODE_DRY_RUN');
   if (dryRun !== undefined) config.dryRun = dryRun === 'true' || dryRun === '1';
@@ -124,5 +143,82 @@ export function validateConfig(config: Config): string[] {
     errors.push('movieMaxHeight must be at least 240');
   }
 
+  if (!['keep', 'mkv', 'mp4'].includes(config.outputContainer)) {
+    errors.push('outputContainer must be one of: keep, mkv, mp4');
+  }
+
+  if (config.savings.sourceBitrateFraction < 0 || config.savings.sourceBitrateFraction > 1) {
+    errors.push('savings.sourceBitrateFraction must be between 0 and 1');
+  }
+
+  if (config.savings.minPercent < 0 || config.savings.minPercent >= 100) {
+    errors.push('savings.minPercent must be between 0 and 100');
+  }
+
+  if (config.prediction.enabled && (config.prediction.samples < 1 || config.prediction.sampleSeconds < 1)) {
+    errors.push('prediction.samples and prediction.sampleSeconds must be at least 1');
+  }
+
+  if (config.probe.concurrency < 1) {
+    errors.push('probe.concurrency must be at least 1');
+  }
+
+  if (config.watch.stableSeconds < 0 || config.watch.rescanMinutes < 0) {
+    errors.push('watch.stableSeconds and watch.rescanMinutes must not be negative');
+  }
+
+  errors.push(...validateSchedule(config.schedule));
+
+  const strategies = ['largest', 'savings-rate', 'newest', 'directory', 'shortest', 'round-robin'];
+  if (!strategies.includes(config.ordering.strategy)) {
+    errors.push(`ordering.strategy must be one of: ${strategies.join(', ')}`);
+  }
+
+  if (config.scheduler.capacity <= 0) {
+    errors.push('scheduler.capacity must be greater than 0');
+  }
+  if (config.scheduler.softwareFactor < 1) {
+    errors.push('scheduler.softwareFactor must be at least 1');
+  }
+
+  if (config.governor.enabled) {
+    if (!['pause', 'suspend'].includes(config.governor.action)) {
+      errors.push('governor.action must be one of: pause, suspend');
+    }
+    if (config.governor.maxTemperature < 0 || config.governor.maxLoad < 0) {
+      errors.push('governor.maxTemperature and governor.maxLoad must not be negative');
+    }
+    if (config.governor.temperatureHysteresis < 0 || config.governor.loadHysteresis < 0) {
+      errors.push('governor.temperatureHysteresis and governor.loadHysteresis must not be negative');
+    }
+    if (config.governor.pollSeconds < 1) {
+      errors.push('governor.pollSeconds must be at least 1');
+    }
+  }
+
+  if (config.quality.enabled) {
+    if (!['vmaf', 'ssim'].includes(config.quality.metric)) {
+      errors.push('quality.metric must be one of: vmaf, ssim');
+    }
+    const maxScore = config.quality.metric === 'ssim' ? 1 : 100;
+    for (const [type, target] of Object.entries(config.quality.targets)) {
+      if (target <= 0 || target > maxScore) {
+        errors.push(`quality.targets.${type} must be between 0 and ${maxScore} for ${config.quality.metric}`);
+      }
+    }
+    if (config.quality.bitrateSteps.length === 0 || config.quality.bitrateSteps.some((step) => step <= 0)) {
+      errors.push('quality.bitrateSteps must be a non-empty list of positive fractions');
+    }
+    if (config.quality.samples < 1 || config.quality.sampleSeconds < 1) {
+      errors.push('quality.samples and quality.sampleSeconds must be at least 1');
+    }
+  }
+
+  for (const [type, policy] of Object.entries(config.hdr)) {
+    if (!['preserve', 'tonemap', 'skip'].includes(policy)) {
+      errors.push(`hdr.${type} must be one of: preserve, tonemap, skip`);
+    }
+  }
+
   return errors;
 }
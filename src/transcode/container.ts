@@ -0,0 +1,76 @@
+/**
+ * Output container module for danger-transcode
+ * Picks the container a transcode is written in and moves sidecar files
+ * along when the extension changes
+ */
+
+import { basename, dirname, extname, join } from '@std/path';
+import type { Config, OutputContainer } from './types.ts';
+import { getLogger } from './logger.ts';
+
+const logger = getLogger().child('container');
+
+/** Source extensions whose container can hold HEVC and AV1 as-is */
+const KEEPABLE_EXTENSIONS: Record<string, OutputContainer> = {
+  '.mkv': 'mkv',
+  '.mp4': 'mp4',
+  '.m4v': 'mp4',
+  '.mov': 'mp4',
+};
+
+/**
+ * Get the container to write for a source file
+ * With 'keep', sources in containers that can't hold HEVC (AVI, WMV, ...) become MKV
+ */
+export function resolveOutputContainer(sourcePath: string, config: Config): OutputContainer {
+  if (config.outputContainer !== 'keep') {
+    return config.outputContainer;
+  }
+  return KEEPABLE_EXTENSIONS[extname(sourcePath).toLowerCase()] ?? 'mkv';
+}
+
+/**
+ * Get the final path of a transcoded file
+ * The source extension is kept when it already names the output container
+ */
+export function getOutputPath(sourcePath: string, container: OutputContainer): string {
+  const extension = extname(sourcePath);
+  if (KEEPABLE_EXTENSIONS[extension.toLowerCase()] === container) {
+    return sourcePath;
+  }
+  return sourcePath.slice(0, sourcePath.length - extension.length) + '.' + container;
+}
+
+/**
+ * Rename sidecar files named after the full media file name (e.g. `Movie.avi.nfo`,
+ * `Movie.avi.en.srt`, `Movie.avi-poster.jpg`) to follow a renamed media file
+ * Sidecars named after the stem (`Movie.nfo`) still match and are left alone
+ * Returns the renamed sidecar paths
+ */
+export async function renameSidecars(fromPath: string, toPath: string): Promise<string[]> {
+  const fromName = basename(fromPath);
+  const toName = basename(toPath);
+  if (fromName === toName) {
+    return [];
+  }
+
+  const dir = dirname(fromPath);
+  const renamed: string[] = [];
+
+  for await (const entry of Deno.readDir(dir)) {
+    if (!entry.isFile || entry.name === fromName || entry.name === toName) continue;
+    if (!entry.name.startsWith(fromName + '.') && !entry.name.startsWith(fromName + '-')) continue;
+
+    const sidecarPath = join(dir, entry.name);
+    const newPath = join(dir, toName + entry.name.slice(fromName.length));
+    try {
+      await Deno.rename(sidecarPath, newPath);
+      renamed.push(newPath);
+      logger.debug(`Renamed sidecar: ${sidecarPath} -> ${newPath}`);
+    } catch (error) {
+      logger.warn(`Failed to rename sidecar: ${sidecarPath}`, error);
+    }
+  }
+
+  return renamed;
+}
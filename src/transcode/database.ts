@@ -1,17 +1,34 @@
 /**
  * Database module for danger-transcode
- * JSON-based tracking of transcoded files
+ * Tracking of transcoded files, persisted through the database store
  */
 
-import { dirname } from '@std/path';
+import { basename, dirname, extname, join } from '@std/path';
 import { ensureDir } from '@std/fs';
-import type { Config, ErrorRecord, TranscodeDatabase, TranscodeRecord } from './types.ts';
+import {
+  compactDatabase,
+  readSnapshot,
+  replayChangeLog,
+  type ReplayResult,
+  saveChanges,
+  trackDatabase,
+  writeSnapshot,
+} from './store.ts';
+import type {
+  CalibrationRecord,
+  Config,
+  ErrorRecord,
+  FailureCategory,
+  FileFingerprint,
+  RetryStrategy,
+  TranscodeDatabase,
+  TranscodeRecord,
+} from './types.ts';
+import { DATABASE_VERSION, type Migration, runMigrations } from './migrations.ts';
 import { getLogger } from './logger.ts';
 
 const logger = getLogger().child('database');
 
-const DATABASE_VERSION = 1;
-
 /**
  * Create an empty database structure
  */
@@ -20,55 +37,142 @@ function createEmptyDatabase(): TranscodeDatabase {
     version: DATABASE_VERSION,
     lastRun: new Date().toISOString(),
     records: {},
+    paths: {},
     errors: {},
+    calibrations: {},
   };
 }
 
+/** A database read into memory, with what reading it involved */
+interface ReadDatabase {
+  db: TranscodeDatabase;
+  hasSnapshot: boolean;
+  fromVersion: number;
+  migrated: Migration[];
+  replay: ReplayResult;
+}
+
 /**
- * Load the transcoding database from disk
+ * Read the snapshot and its change log into memory, migrating older snapshots
+ * there; nothing is written
  */
-export async function loadDatabase(config: Config): Promise<TranscodeDatabase> {
-  try {
-    const content = await Deno.readTextFile(config.databasePath);
-    const db = JSON.parse(content) as TranscodeDatabase;
+async function readDatabase(config: Config): Promise<ReadDatabase> {
+  const snapshot = await readSnapshot(config.databasePath);
+  const db = snapshot ?? createEmptyDatabase();
+  const fromVersion = db.version ?? 1;
+  if (fromVersion !== DATABASE_VERSION) {
+    logger.warn(`Database version mismatch (${fromVersion} vs ${DATABASE_VERSION}), migrating...`);
+  }
+  const migrated = runMigrations(db);
+  for (const migration of migrated) {
+    logger.info(`  v${migration.version}: ${migration.description}`);
+  }
 
-    // Migrate if needed
-    if (db.version !== DATABASE_VERSION) {
-      logger.warn(`Database version mismatch (${db.version} vs ${DATABASE_VERSION}), migrating...`);
-      db.version = DATABASE_VERSION;
-    }
+  const replay = await replayChangeLog(config.databasePath, db);
+  return { db, hasSnapshot: snapshot !== null, fromVersion, migrated, replay };
+}
 
-    logger.info(`Loaded database with ${Object.keys(db.records).length} records`);
-    return db;
-  } catch (error) {
-    if (error instanceof Deno.errors.NotFound) {
-      logger.info('No existing database found, creating new one');
-      return createEmptyDatabase();
-    }
-    throw error;
+/**
+ * Load the transcoding database from disk: the snapshot plus its change log
+ * Older snapshots are migrated and rewritten, keeping a copy of the original;
+ * must only be called while holding the process lock
+ */
+export async function loadDatabase(config: Config): Promise<TranscodeDatabase> {
+  const { db, hasSnapshot, fromVersion, migrated, replay } = await readDatabase(config);
+  if (!hasSnapshot && replay.replayed === 0) {
+    logger.info('No existing database found, creating new one');
+  }
+  trackDatabase(db, config.databasePath, replay);
+
+  if (hasSnapshot && migrated.length > 0) {
+    const backupPath = `${config.databasePath}.v${fromVersion}.bak`;
+    await Deno.copyFile(config.databasePath, backupPath);
+    await compactDatabase(db, config.databasePath);
+    logger.info(`Migrated database to version ${DATABASE_VERSION} (backup: ${backupPath})`);
   }
+
+  logger.info(`Loaded database with ${Object.keys(db.records).length} records`);
+  return db;
 }
 
 /**
- * Save the transcoding database to disk
+ * Load the transcoding database for reading, without the process lock
+ * Migrations only run in memory; the store on disk is never touched, so a
+ * running transcode can keep appending to it. Never save the result
  */
-export async function saveDatabase(config: Config, db: TranscodeDatabase): Promise<void> {
-  // Ensure directory exists
-  await ensureDir(dirname(config.databasePath));
+export async function loadDatabaseReadOnly(config: Config): Promise<TranscodeDatabase> {
+  const { db } = await readDatabase(config);
+  logger.debug(`Loaded database with ${Object.keys(db.records).length} records (read-only)`);
+  return db;
+}
 
+/**
+ * Save the changes made to the transcoding database since it was last saved
+ */
+export async function saveDatabase(config: Config, db: TranscodeDatabase): Promise<void> {
   db.lastRun = new Date().toISOString();
 
-  const content = JSON.stringify(db, null, 2);
-  await Deno.writeTextFile(config.databasePath, content);
+  const written = await saveChanges(db, config.databasePath);
+
+  logger.debug(
+    `Saved ${written} database changes (${Object.keys(db.records).length} records)`,
+  );
+}
+
+/**
+ * Write a full JSON copy of the database, e.g. for backups
+ */
+export async function exportDatabase(db: TranscodeDatabase, path: string): Promise<void> {
+  await writeSnapshot(path, db);
+  logger.info(`Exported database with ${Object.keys(db.records).length} records to ${path}`);
+}
+
+/**
+ * Get the key a fingerprint's record is stored under
+ * The mtime is left out so a copied or re-mounted file still matches
+ */
+export function getFingerprintKey(fingerprint: FileFingerprint): string {
+  return `${fingerprint.size}:${fingerprint.head.slice(0, 16)}:${fingerprint.tail.slice(0, 16)}`;
+}
+
+/**
+ * Get the key a record is stored under: its fingerprint, or its path for
+ * records written before fingerprints existed
+ */
+export function getRecordKey(record: TranscodeRecord): string {
+  return record.fingerprint ? getFingerprintKey(record.fingerprint) : getRecordPath(record);
+}
+
+/**
+ * Get the record for the file currently at a path
+ */
+export function getRecordByPath(db: TranscodeDatabase, filePath: string): TranscodeRecord | null {
+  const key = db.paths[filePath];
+  return key ? db.records[key] ?? null : null;
+}
 
-  logger.debug(`Saved database with ${Object.keys(db.records).length} records`);
+/**
+ * Get the record for a file's content, wherever it was last seen
+ */
+export function getRecordByFingerprint(
+  db: TranscodeDatabase,
+  fingerprint: FileFingerprint,
+): TranscodeRecord | null {
+  return db.records[getFingerprintKey(fingerprint)] ?? null;
 }
 
 /**
  * Check if a file has already been transcoded
  */
 export function isFileTranscoded(db: TranscodeDatabase, filePath: string): boolean {
-  return filePath in db.records && db.records[filePath].success;
+  return getRecordByPath(db, filePath)?.success === true;
+}
+
+/**
+ * Check if a file's original was restored from quarantine
+ */
+export function isFileReverted(db: TranscodeDatabase, filePath: string): boolean {
+  return getRecordByPath(db, filePath)?.reverted === true;
 }
 
 /**
@@ -78,14 +182,23 @@ export function getFileErrors(db: TranscodeDatabase, filePath: string): ErrorRec
   return db.errors[filePath] ?? null;
 }
 
+/**
+ * Get the current path of a transcoded file, which keys its record
+ */
+export function getRecordPath(record: TranscodeRecord): string {
+  return record.outputPath ?? record.originalPath;
+}
+
 /**
  * Add a successful transcode record
+ * Keyed by the output file's fingerprint and indexed by its path, so the file
+ * is recognized on the next scan even after a rename or move
  */
 export function addTranscodeRecord(
   db: TranscodeDatabase,
   record: TranscodeRecord,
 ): void {
-  db.records[record.originalPath] = record;
+  putRecord(db, record);
 
   // Clear any previous errors
   if (record.originalPath in db.errors) {
@@ -95,13 +208,108 @@ export function addTranscodeRecord(
   logger.debug(`Added transcode record for: ${record.originalPath}`);
 }
 
+/**
+ * Point a record at the file now at `filePath`, re-keying it by `fingerprint`
+ * The original path follows along (keeping its extension), so a restore from
+ * quarantine puts the original next to the moved file
+ */
+export function relinkRecord(
+  db: TranscodeDatabase,
+  record: TranscodeRecord,
+  filePath: string,
+  fingerprint: FileFingerprint,
+): void {
+  const oldPath = getRecordPath(record);
+  const oldKey = getRecordKey(record);
+  if (db.paths[oldPath] === oldKey) {
+    delete db.paths[oldPath];
+  }
+  delete db.records[oldKey];
+
+  if (oldPath !== filePath) {
+    if (record.outputPath) {
+      const stem = basename(filePath, extname(filePath));
+      record.originalPath = join(dirname(filePath), stem + extname(record.originalPath));
+      record.outputPath = filePath;
+    } else {
+      record.originalPath = filePath;
+    }
+  }
+  record.fingerprint = fingerprint;
+
+  const key = getRecordKey(record);
+  db.records[key] = record;
+  db.paths[filePath] = key;
+}
+
+/**
+ * Store a record under its key and index its path, replacing any record there
+ */
+export function putRecord(db: TranscodeDatabase, record: TranscodeRecord): void {
+  const key = getRecordKey(record);
+  db.records[key] = record;
+  db.paths[getRecordPath(record)] = key;
+}
+
+/**
+ * Drop the record stored under `key`, along with its path index entry
+ */
+export function removeRecord(db: TranscodeDatabase, key: string): void {
+  const record = db.records[key];
+  if (!record) {
+    return;
+  }
+  const path = getRecordPath(record);
+  if (db.paths[path] === key) {
+    delete db.paths[path];
+  }
+  delete db.records[key];
+}
+
+/**
+ * Drop the record for a path whose content was replaced
+ */
+export function invalidateRecord(db: TranscodeDatabase, filePath: string): void {
+  const key = db.paths[filePath];
+  if (key) {
+    delete db.records[key];
+    delete db.paths[filePath];
+  }
+  delete db.calibrations[filePath];
+  logger.debug(`Invalidated record for: ${filePath}`);
+}
+
+/**
+ * Get the stored quality calibration for a source file
+ */
+export function getCalibrationRecord(
+  db: TranscodeDatabase,
+  filePath: string,
+): CalibrationRecord | null {
+  return db.calibrations[filePath] ?? null;
+}
+
+/**
+ * Store a quality calibration so re-runs don't repeat the sample encodes
+ */
+export function addCalibrationRecord(
+  db: TranscodeDatabase,
+  filePath: string,
+  record: CalibrationRecord,
+): void {
+  db.calibrations[filePath] = record;
+  logger.debug(`Added calibration record for: ${filePath}`);
+}
+
 /**
  * Add an error record for a failed transcode
+ * The failure category and strategy let the next run continue down the retry chain
  */
 export function addErrorRecord(
   db: TranscodeDatabase,
   filePath: string,
   error: string,
+  failure: { category?: FailureCategory; strategy?: RetryStrategy } = {},
 ): void {
   const existingError = db.errors[filePath];
 
@@ -109,16 +317,48 @@ export function addErrorRecord(
     existingError.attempts += 1;
     existingError.timestamp = new Date().toISOString();
     existingError.error = error;
+    existingError.status = 'failed';
+    existingError.category = failure.category;
+    existingError.strategy = failure.strategy;
   } else {
     db.errors[filePath] = {
       path: filePath,
       timestamp: new Date().toISOString(),
       error,
       attempts: 1,
+      status: 'failed',
+      category: failure.category,
+      strategy: failure.strategy,
+    };
+  }
+
+  logger.warn(`Added error record for: ${filePath} (${failure.category ?? 'unknown'}: ${error})`);
+}
+
+/**
+ * Record a transcode stopped by shutdown
+ * Does not count as an attempt, so the file is retried normally next run
+ * The last failure's category and strategy are kept for the retry chain
+ */
+export function addInterruptedRecord(db: TranscodeDatabase, filePath: string): void {
+  const existingError = db.errors[filePath];
+  const error = 'Interrupted by shutdown';
+
+  if (existingError) {
+    existingError.timestamp = new Date().toISOString();
+    existingError.error = error;
+    existingError.status = 'interrupted';
+  } else {
+    db.errors[filePath] = {
+      path: filePath,
+      timestamp: new Date().toISOString(),
+      error,
+      attempts: 0,
+      status: 'interrupted',
     };
   }
 
-  logger.warn(`Added error record for: ${filePath} (${error})`);
+  logger.info(`Marked as interrupted: ${filePath}`);
 }
 
 /**
@@ -132,15 +372,15 @@ export function getDatabaseStats(db: TranscodeDatabase): {
   const records = Object.values(db.records);
 
   const totalSpaceSaved = records.reduce((sum, record) => {
-    if (record.success) {
+    if (record.success && !record.reverted) {
       return sum + (record.originalSize - record.newSize);
     }
     return sum;
   }, 0);
 
   return {
-    totalRecords: records.filter((r) => r.success).length,
-    totalErrors: Object.keys(db.errors).length,
+    totalRecords: records.filter((r) => r.success && !r.reverted).length,
+    totalErrors: Object.values(db.errors).filter((e) => e.status !== 'interrupted').length,
     totalSpaceSaved,
   };
 }
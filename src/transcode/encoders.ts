@@ -0,0 +1,463 @@
+/**
+ * Encoder backends for danger-transcode
+ * Each backend knows how to drive one FFmpeg encoder (and its matching
+ * decoder/scaler); capability probing picks the best one available
+ */
+
+import type { Config, EncoderName, HdrPolicy, MediaFile, RetryStrategy } from './types.ts';
+import { pathExists } from '../shared/files.ts';
+import { TONEMAP_FILTERS } from './hdr.ts';
+import { getLogger } from './logger.ts';
+import { getProcessRegistry } from '../shared/process.ts';
+
+const logger = getLogger().child('encoders');
+
+/** Per-file settings handed to a backend when building arguments */
+export interface EncodeSettings {
+  file: MediaFile;
+  /** Target video bitrate (e.g. "5M") */
+  bitrate: string;
+  /** Peak video bitrate for VBR (e.g. "7.5M") */
+  maxBitrate: string;
+  /** Whether the output resolution differs from the source */
+  needsScale: boolean;
+  targetWidth: number;
+  targetHeight: number;
+  /** Decode on the hardware too; false uploads software-decoded frames to the encoder */
+  hardwareDecode: boolean;
+  /** Encode 10-bit (Main10) output */
+  tenBit: boolean;
+  /** HDR handling for HDR sources; tone-mapping always runs on software-decoded frames */
+  hdr: Exclude<HdrPolicy, 'skip'> | null;
+}
+
+/** An FFmpeg encoder backend */
+export interface EncoderBackend {
+  name: EncoderName;
+  description: string;
+  /** Codec of the produced video stream */
+  codec: 'hevc' | 'av1';
+  /** Whether encoding runs on dedicated hardware */
+  hardware: boolean;
+  /** Whether the encoder can produce 10-bit output */
+  main10: boolean;
+  /** FFmpeg encoders that must be compiled in */
+  requiredEncoders: string[];
+  /** FFmpeg filters that must be compiled in */
+  requiredFilters: string[];
+  /** Device nodes that must exist */
+  requiredDevices(config: Config): string[];
+  /** Options placed before `-i` (decoder / hardware context) */
+  inputArgs(settings: EncodeSettings, config: Config): string[];
+  /** Video filter and encoder options placed after `-i` */
+  videoArgs(settings: EncodeSettings, config: Config): string[];
+}
+
+/** Encoders and filters compiled into the local FFmpeg */
+export interface EncoderCapabilities {
+  encoders: Set<string>;
+  filters: Set<string>;
+}
+
+//═══════════════════════════════════════════════════════════════════════════════
+// BACKENDS
+//═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * CPU filters: scale if needed, tone-map if requested, then convert to `pixelFormat`
+ */
+function softwareFilters(settings: EncodeSettings, pixelFormat?: string): string[] {
+  const filters: string[] = [];
+  if (settings.needsScale) {
+    filters.push(`scale=${settings.targetWidth}:${settings.targetHeight}`);
+  }
+  if (settings.hdr === 'tonemap') {
+    filters.push(...TONEMAP_FILTERS);
+  }
+  if (pixelFormat) {
+    filters.push(`format=${pixelFormat}`);
+  }
+  return filters;
+}
+
+/**
+ * Software filter chain for frames decoded on the CPU: scale and tone-map if
+ * needed, then convert to NV12/P010 (and optionally upload) for the hardware encoder
+ */
+function softwareFilterChain(settings: EncodeSettings, ...tail: string[]): string {
+  return [...softwareFilters(settings, settings.tenBit ? 'p010le' : 'nv12'), ...tail].join(',');
+}
+
+/**
+ * Filter options for the software encoders; sources are only converted when
+ * tone-mapping or keeping 10 bits
+ */
+function softwareEncoderFilterArgs(settings: EncodeSettings): string[] {
+  let pixelFormat: string | undefined;
+  if (settings.tenBit) {
+    pixelFormat = 'yuv420p10le';
+  } else if (settings.hdr === 'tonemap') {
+    pixelFormat = 'yuv420p';
+  }
+  const filters = softwareFilters(settings, pixelFormat);
+  return filters.length > 0 ? ['-filter:v:0', filters.join(',')] : [];
+}
+
+/**
+ * Rate options for the software encoders: constant quality (CRF), capped at
+ * the target bitrate so the output never exceeds what the savings check assumed
+ */
+function cappedCrfArgs(settings: EncodeSettings, crf: number): string[] {
+  return ['-crf', String(crf), '-maxrate', settings.bitrate, '-bufsize', settings.maxBitrate];
+}
+
+/** Rockchip MPP encoder with RGA scaling (RK3588 and friends) */
+const rkmppBackend: EncoderBackend = {
+  name: 'rkmpp',
+  description: 'Rockchip MPP (hevc_rkmpp + scale_rkrga)',
+  codec: 'hevc',
+  hardware: true,
+  // hevc_rkmpp only encodes 8-bit Main profile
+  main10: false,
+  requiredEncoders: ['hevc_rkmpp'],
+  requiredFilters: ['scale_rkrga'],
+  requiredDevices: () => ['/dev/mpp_service'],
+  inputArgs: (settings) => {
+    if (!settings.hardwareDecode) return [];
+    return ['-hwaccel', 'rkmpp', '-hwaccel_output_format', 'drm_prime', '-afbc', 'rga'];
+  },
+  videoArgs: (settings) => {
+    const args = ['-c:v:0', 'hevc_rkmpp'];
+    if (!settings.hardwareDecode) {
+      args.push('-filter:v:0', softwareFilterChain(settings));
+    } else if (settings.needsScale) {
+      args.push(
+        '-filter:v:0',
+        `scale_rkrga=w=${settings.targetWidth}:h=${settings.targetHeight}:format=nv12:afbc=1`,
+      );
+    }
+    args.push('-rc_mode', 'VBR', '-b:v', settings.bitrate, '-maxrate', settings.maxBitrate);
+    return args;
+  },
+};
+
+/** Software HEVC via x265 */
+const libx265Backend: EncoderBackend = {
+  name: 'libx265',
+  description: 'Software HEVC (libx265)',
+  codec: 'hevc',
+  hardware: false,
+  main10: true,
+  requiredEncoders: ['libx265'],
+  requiredFilters: ['scale'],
+  requiredDevices: () => [],
+  inputArgs: () => [],
+  videoArgs: (settings) => {
+    const args = ['-c:v:0', 'libx265', '-preset', 'medium', ...cappedCrfArgs(settings, 23)];
+    args.push(...softwareEncoderFilterArgs(settings));
+    if (settings.hdr === 'preserve') {
+      // Write HDR10 mastering/light level SEI on every keyframe
+      args.push('-x265-params', 'hdr10-opt=1:repeat-headers=1');
+    }
+    return args;
+  },
+};
+
+/** Software AV1 via SVT-AV1 */
+const libsvtav1Backend: EncoderBackend = {
+  name: 'libsvtav1',
+  description: 'Software AV1 (libsvtav1)',
+  codec: 'av1',
+  hardware: false,
+  main10: true,
+  requiredEncoders: ['libsvtav1'],
+  requiredFilters: ['scale'],
+  requiredDevices: () => [],
+  inputArgs: () => [],
+  videoArgs: (settings) => {
+    const args = ['-c:v:0', 'libsvtav1', '-preset', '8', ...cappedCrfArgs(settings, 32)];
+    args.push(...softwareEncoderFilterArgs(settings));
+    return args;
+  },
+};
+
+/** VA-API (Intel/AMD GPUs on Linux) */
+const vaapiBackend: EncoderBackend = {
+  name: 'vaapi',
+  description: 'VA-API (hevc_vaapi + scale_vaapi)',
+  codec: 'hevc',
+  hardware: true,
+  main10: true,
+  requiredEncoders: ['hevc_vaapi'],
+  requiredFilters: ['scale_vaapi'],
+  requiredDevices: (config) => [config.hwDevice],
+  inputArgs: (settings, config) => {
+    if (!settings.hardwareDecode) return ['-vaapi_device', config.hwDevice];
+    return [
+      '-hwaccel',
+      'vaapi',
+      '-hwaccel_device',
+      config.hwDevice,
+      '-hwaccel_output_format',
+      'vaapi',
+    ];
+  },
+  videoArgs: (settings) => {
+    const args = ['-c:v:0', 'hevc_vaapi'];
+    if (!settings.hardwareDecode) {
+      args.push('-filter:v:0', softwareFilterChain(settings, 'hwupload'));
+    } else if (settings.needsScale) {
+      const format = settings.tenBit ? 'p010' : 'nv12';
+      args.push(
+        '-filter:v:0',
+        `scale_vaapi=w=${settings.targetWidth}:h=${settings.targetHeight}:format=${format}`,
+      );
+    }
+    if (settings.tenBit) {
+      args.push('-profile:v:0', 'main10');
+    }
+    args.push('-b:v', settings.bitrate, '-maxrate', settings.maxBitrate);
+    return args;
+  },
+};
+
+/** Intel Quick Sync Video */
+const qsvBackend: EncoderBackend = {
+  name: 'qsv',
+  description: 'Intel Quick Sync (hevc_qsv + scale_qsv)',
+  codec: 'hevc',
+  hardware: true,
+  main10: true,
+  requiredEncoders: ['hevc_qsv'],
+  requiredFilters: ['scale_qsv'],
+  requiredDevices: (config) => [config.hwDevice],
+  inputArgs: (settings, config) => {
+    if (!settings.hardwareDecode) {
+      return ['-init_hw_device', `qsv=hw:${config.hwDevice}`, '-filter_hw_device', 'hw'];
+    }
+    return ['-hwaccel', 'qsv', '-qsv_device', config.hwDevice, '-hwaccel_output_format', 'qsv'];
+  },
+  videoArgs: (settings) => {
+    const args = ['-c:v:0', 'hevc_qsv', '-preset', 'medium'];
+    if (!settings.hardwareDecode) {
+      args.push('-filter:v:0', softwareFilterChain(settings, 'hwupload=extra_hw_frames=64'));
+    } else if (settings.needsScale) {
+      args.push('-filter:v:0', `scale_qsv=w=${settings.targetWidth}:h=${settings.targetHeight}`);
+    }
+    if (settings.tenBit) {
+      args.push('-profile:v:0', 'main10');
+    }
+    args.push('-b:v', settings.bitrate, '-maxrate', settings.maxBitrate);
+    return args;
+  },
+};
+
+/** NVIDIA NVENC */
+const nvencBackend: EncoderBackend = {
+  name: 'nvenc',
+  description: 'NVIDIA NVENC (hevc_nvenc + scale_cuda)',
+  codec: 'hevc',
+  hardware: true,
+  main10: true,
+  requiredEncoders: ['hevc_nvenc'],
+  requiredFilters: ['scale_cuda'],
+  requiredDevices: () => ['/dev/nvidia0'],
+  inputArgs: (settings) => {
+    if (!settings.hardwareDecode) return [];
+    return ['-hwaccel', 'cuda', '-hwaccel_output_format', 'cuda'];
+  },
+  videoArgs: (settings) => {
+    const args = ['-c:v:0', 'hevc_nvenc', '-preset', 'p5'];
+    if (!settings.hardwareDecode) {
+      // NVENC takes system memory frames directly
+      args.push('-filter:v:0', softwareFilterChain(settings));
+    } else if (settings.needsScale) {
+      args.push('-filter:v:0', `scale_cuda=w=${settings.targetWidth}:h=${settings.targetHeight}`);
+    }
+    if (settings.tenBit) {
+      args.push('-profile:v:0', 'main10');
+    }
+    args.push('-rc', 'vbr', '-b:v', settings.bitrate, '-maxrate', settings.maxBitrate);
+    return args;
+  },
+};
+
+/** All backends, in auto-selection preference order */
+export const ENCODER_BACKENDS: readonly EncoderBackend[] = [
+  rkmppBackend,
+  nvencBackend,
+  qsvBackend,
+  vaapiBackend,
+  libx265Backend,
+  libsvtav1Backend,
+];
+
+/** Names accepted for the `encoder` config option */
+export const ENCODER_NAMES: readonly EncoderName[] = ENCODER_BACKENDS.map((b) => b.name);
+
+//═══════════════════════════════════════════════════════════════════════════════
+// CAPABILITY PROBING
+//═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Run `ffmpeg -hide_banner <flag>` and return the second column of each listing row
+ * Rows look like " V....D libx265   description" or " ..C scale   V->V   description"
+ */
+async function listFFmpegComponents(ffmpegPath: string, flag: string): Promise<Set<string>> {
+  const command = new Deno.Command(ffmpegPath, {
+    args: ['-hide_banner', flag],
+    stdin: 'null',
+    stdout: 'piped',
+    stderr: 'null',
+  });
+
+  const { code, stdout } = await getProcessRegistry().output(command, `ffmpeg ${flag}`, 'probe');
+  if (code !== 0) {
+    throw new Error(`ffmpeg ${flag} failed with code ${code}`);
+  }
+
+  const names = new Set<string>();
+  let inListing = false;
+  for (const line of new TextDecoder().decode(stdout).split('\n')) {
+    // Encoder listings have a legend terminated by a dashed line
+    if (line.trim().startsWith('---')) {
+      inListing = true;
+      continue;
+    }
+
+    const parts = line.trim().split(/\s+/);
+    if (parts.length < 2) continue;
+
+    const isEncoderRow = inListing && /^[VAS][A-Z.]{5}$/.test(parts[0]);
+    const isFilterRow = parts.length >= 3 && parts[2].includes('->');
+    if (isEncoderRow || isFilterRow) {
+      names.add(parts[1]);
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Query the encoders and filters compiled into FFmpeg
+ */
+export async function probeEncoderCapabilities(ffmpegPath: string): Promise<EncoderCapabilities> {
+  const [encoders, filters] = await Promise.all([
+    listFFmpegComponents(ffmpegPath, '-encoders'),
+    listFFmpegComponents(ffmpegPath, '-filters'),
+  ]);
+  return { encoders, filters };
+}
+
+/**
+ * Check whether a backend can run here; returns the reason it can't, or null
+ */
+export async function checkBackendAvailability(
+  backend: EncoderBackend,
+  capabilities: EncoderCapabilities,
+  config: Config,
+): Promise<string | null> {
+  for (const encoder of backend.requiredEncoders) {
+    if (!capabilities.encoders.has(encoder)) {
+      return `encoder ${encoder} not available`;
+    }
+  }
+  for (const filter of backend.requiredFilters) {
+    if (!capabilities.filters.has(filter)) {
+      return `filter ${filter} not available`;
+    }
+  }
+  for (const device of backend.requiredDevices(config)) {
+    if (!await pathExists(device)) {
+      return `device ${device} not found`;
+    }
+  }
+  return null;
+}
+
+//═══════════════════════════════════════════════════════════════════════════════
+// SELECTION
+//═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Look up a backend by name
+ */
+export function findEncoderBackend(name: string): EncoderBackend | undefined {
+  return ENCODER_BACKENDS.find((backend) => backend.name === name);
+}
+
+/**
+ * Get the backend to use for building FFmpeg arguments
+ * An unresolved 'auto' falls back to rkmpp or libx265 based on useHardwareAccel
+ */
+export function getEncoderBackend(config: Config): EncoderBackend {
+  if (config.encoder !== 'auto') {
+    const backend = findEncoderBackend(config.encoder);
+    if (backend) return backend;
+  }
+  return config.useHardwareAccel ? rkmppBackend : libx265Backend;
+}
+
+/**
+ * Get the backend a retry strategy runs on
+ * The software strategy always encodes with libx265, as do files that need
+ * 10-bit output on a backend that can't produce it
+ */
+export function getStrategyBackend(
+  config: Config,
+  strategy: RetryStrategy,
+  needsMain10 = false,
+): EncoderBackend {
+  if (strategy === 'software') {
+    return libx265Backend;
+  }
+  const backend = getEncoderBackend(config);
+  return needsMain10 && !backend.main10 ? libx265Backend : backend;
+}
+
+/**
+ * Pick the encoder backend for this machine
+ * A backend named in config must be available; 'auto' takes the first available
+ * backend in preference order (software only when hardware acceleration is off)
+ */
+export async function selectEncoderBackend(config: Config): Promise<EncoderBackend> {
+  const capabilities = await probeEncoderCapabilities(config.ffmpegPath);
+
+  if (config.encoder !== 'auto') {
+    const backend = findEncoderBackend(config.encoder);
+    if (!backend) {
+      throw new Error(
+        `Unknown encoder: ${config.encoder} (expected one of: auto, ${ENCODER_NAMES.join(', ')})`,
+      );
+    }
+    const reason = await checkBackendAvailability(backend, capabilities, config);
+    if (reason) {
+      throw new Error(`Encoder ${backend.name} is not usable: ${reason}`);
+    }
+    return backend;
+  }
+
+  for (const backend of ENCODER_BACKENDS) {
+    if (backend.hardware && !config.useHardwareAccel) {
+      continue;
+    }
+    const reason = await checkBackendAvailability(backend, capabilities, config);
+    if (reason) {
+      logger.debug(`Encoder ${backend.name} unavailable: ${reason}`);
+      continue;
+    }
+    return backend;
+  }
+
+  throw new Error('No usable encoder found (tried: ' + ENCODER_NAMES.join(', ') + ')');
+}
+
+/**
+ * Resolve `config.encoder` to a concrete backend and store it back on the config
+ */
+export async function resolveEncoder(config: Config): Promise<EncoderBackend> {
+  const backend = await selectEncoderBackend(config);
+  config.encoder = backend.name;
+  logger.info(`Using encoder: ${backend.description}`);
+  return backend;
+}
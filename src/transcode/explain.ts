@@ -0,0 +1,225 @@
+/**
+ * Explain module for danger-transcode
+ * Traces the decisions a scan makes for a single file: exclusions, media type,
+ * database state, analysis and the encode it would run
+ */
+
+import type { Config, MediaFile, TranscodeDatabase } from './types.ts';
+import {
+  analyzeProbe,
+  calculateTargetResolution,
+  checkExclusions,
+  classifyMediaType,
+  filterByDatabaseState,
+  isVideoFile,
+} from './scanner.ts';
+import { formatBitrate, isHEVC, probeMediaFile, type ProbeResult } from './ffprobe.ts';
+import { buildFFmpegArgs, getEncodeSettings, getTempOutputPath } from './transcoder.ts';
+import { resolveOutputContainer } from './container.ts';
+import { getFileErrors } from './database.ts';
+import { applyPrediction, getPredictionCorrection } from './prediction.ts';
+import { applyQualityCalibration, getValidCalibration } from './quality.ts';
+import { getSavingsSkipReason } from './bitrate.ts';
+import { formatBytes } from '../shared/format.ts';
+
+/** What a scan would do with a file */
+export type ExplainDecision = 'excluded' | 'skipped' | 'transcode' | 'error';
+
+/** One check and its outcome */
+export interface ExplainStep {
+  check: string;
+  result: string;
+}
+
+/** Every decision made for a file, in the order a scan makes them */
+export interface FileExplanation {
+  path: string;
+  steps: ExplainStep[];
+  decision: ExplainDecision;
+  reason: string;
+  /** The analyzed file, once probing succeeded */
+  file?: MediaFile;
+  /** FFmpeg arguments of the first attempt, when the file would be transcoded */
+  ffmpegArgs?: string[];
+}
+
+/**
+ * Check whether a path is inside one of the media directories
+ */
+function findMediaDir(path: string, config: Config): string | null {
+  return config.mediaDirs.find((dir) => {
+    const prefix = dir.replace(/\/+$/, '');
+    return path.startsWith(`${prefix}/`);
+  }) ?? null;
+}
+
+/**
+ * Describe the main video stream of a probe
+ */
+function describeVideo(probe: ProbeResult): string {
+  if (!probe.video) {
+    return 'no video stream';
+  }
+  const { codec_name, width, height, bit_rate } = probe.video;
+  const parts = [`${codec_name} ${width}x${height}`];
+  if (bit_rate) {
+    parts.push(formatBitrate(parseInt(bit_rate, 10)));
+  }
+  if (probe.color) {
+    parts.push(`${probe.color.bitDepth}-bit ${probe.color.hdrFormat ?? 'SDR'}`);
+  }
+  return parts.join(', ');
+}
+
+/**
+ * Trace why a file would be excluded, skipped or transcoded
+ * The database is only read; sample encodes run when quality calibration or
+ * size prediction is enabled
+ */
+export async function explainFile(
+  path: string,
+  config: Config,
+  db: TranscodeDatabase,
+): Promise<FileExplanation> {
+  const steps: ExplainStep[] = [];
+  const explanation = (
+    decision: ExplainDecision,
+    reason: string,
+    extra: Partial<FileExplanation> = {},
+  ): FileExplanation => ({ path, steps, decision, reason, ...extra });
+
+  let stat: Deno.FileInfo;
+  try {
+    stat = await Deno.stat(path);
+  } catch {
+    return explanation('error', 'File not found');
+  }
+  if (!stat.isFile) {
+    return explanation('error', 'Not a regular file');
+  }
+  steps.push({ check: 'File', result: formatBytes(stat.size) });
+
+  const mediaDir = findMediaDir(path, config);
+  steps.push({
+    check: 'Media directory',
+    result: mediaDir ?? 'outside every media directory, a scan would not find it',
+  });
+
+  // checkExclusions
+  if (!isVideoFile(path, config)) {
+    steps.push({ check: 'Extension', result: 'not in videoExtensions' });
+    return explanation('excluded', 'Not a video file');
+  }
+  const exclusion = checkExclusions(path, config);
+  steps.push({ check: 'Exclusions', result: exclusion.reason ?? 'no rule matches' });
+  if (exclusion.excluded) {
+    return explanation('excluded', exclusion.reason ?? 'Excluded');
+  }
+
+  // classifyMediaType
+  const mediaType = classifyMediaType(path);
+  const maxHeight = mediaType === 'tv'
+    ? `${config.tvMaxHeight}p max`
+    : mediaType === 'movie'
+    ? `${config.movieMaxHeight}p max`
+    : 'resolution kept';
+  steps.push({ check: 'Media type', result: `${mediaType} (${maxHeight})` });
+
+  // filterByDatabaseState
+  const discovered = { path, size: stat.size, mtime: stat.mtime?.getTime() ?? 0 };
+  const dbState = filterByDatabaseState([discovered], db);
+  const errors = getFileErrors(db, path);
+  if (dbState.reverted.length > 0) {
+    steps.push({ check: 'Database', result: 'original restored from quarantine' });
+    return explanation('skipped', 'Original restored from quarantine; remove the record to retry');
+  }
+  if (dbState.alreadyDone.length > 0) {
+    steps.push({ check: 'Database', result: 'already transcoded' });
+    return explanation('skipped', 'Already transcoded');
+  }
+  if (dbState.tooManyErrors.length > 0) {
+    steps.push({ check: 'Database', result: `${errors?.attempts} failed attempts` });
+    return explanation('skipped', 'Too many errors; clear them with --clear-errors to retry');
+  }
+  steps.push({
+    check: 'Database',
+    result: errors ? `${errors.attempts} failed attempts so far (${errors.error})` : 'no record',
+  });
+
+  // analyzeFile
+  let probe: ProbeResult;
+  try {
+    probe = await probeMediaFile(config, path);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return explanation('error', `Probe failed: ${message}`);
+  }
+  steps.push({ check: 'Video', result: describeVideo(probe) });
+
+  if (probe.video) {
+    // calculateTargetResolution
+    const target = calculateTargetResolution(
+      probe.video.width,
+      probe.video.height,
+      mediaType,
+      config,
+    );
+    steps.push({
+      check: 'Target resolution',
+      result: target ? `scale to ${target.width}x${target.height}` : 'no scaling',
+    });
+    steps.push({
+      check: 'Codec',
+      result: isHEVC(probe.video.codec_name) ? 'already HEVC' : 'needs conversion to HEVC',
+    });
+  }
+
+  const analysis = analyzeProbe(path, probe, config);
+  const file = analysis.file;
+  if (!file) {
+    return explanation('skipped', analysis.skipReason ?? analysis.error ?? 'Analysis failed');
+  }
+  file.mtime = discovered.mtime;
+  if (!file.needsTranscode) {
+    return explanation('skipped', file.skipReason ?? 'No transcode needed', { file });
+  }
+  // checkEncodeSavings
+  await applyQualityCalibration(file, config, db);
+  const calibrated = config.quality.enabled && getValidCalibration(db, file, config) !== null;
+  steps.push({
+    check: 'Target bitrate',
+    result: formatBitrate(file.targetBitrate ?? 0) + (calibrated ? ' (calibrated)' : ''),
+  });
+  if (config.quality.enabled) {
+    const skipReason = getSavingsSkipReason(file, config);
+    if (skipReason) {
+      return explanation('skipped', skipReason, { file });
+    }
+  }
+
+  if (config.prediction.enabled) {
+    const skipReason = await applyPrediction(file, config, getPredictionCorrection(db));
+    steps.push({
+      check: 'Size prediction',
+      result: file.prediction
+        ? `${formatBytes(file.prediction.size)} from sample encodes`
+        : 'no prediction (file too short or sample encodes failed)',
+    });
+    if (skipReason) {
+      return explanation('skipped', skipReason, { file });
+    }
+  }
+
+  const { backend, settings } = getEncodeSettings(file, config);
+  steps.push({
+    check: 'Encoder',
+    result: `${backend.name}, ${settings.hardwareDecode ? 'hardware' : 'software'} decode` +
+      (settings.tenBit ? ', 10-bit' : '') + (settings.hdr ? `, HDR ${settings.hdr}` : ''),
+  });
+
+  const outputPath = getTempOutputPath(config, path, resolveOutputContainer(path, config));
+  return explanation('transcode', 'Needs transcoding', {
+    file,
+    ffmpegArgs: buildFFmpegArgs(path, outputPath, file, config),
+  });
+}
@@ -0,0 +1,140 @@
+/**
+ * Failure classification module for danger-transcode
+ * Sorts FFmpeg failures into categories and decides how to retry each one
+ */
+
+import type { EncoderBackend } from './encoders.ts';
+import type { ErrorRecord, FailureCategory, RetryStrategy } from './types.ts';
+
+/** Stderr patterns per category, checked in order */
+const FAILURE_PATTERNS: { category: FailureCategory; patterns: RegExp[] }[] = [
+  {
+    category: 'out-of-space',
+    patterns: [/No space left on device/i, /ENOSPC/, /Disk quota exceeded/i],
+  },
+  {
+    category: 'hardware-init',
+    patterns: [
+      /Device creation failed/i,
+      /Failed to (?:init|initiali[sz]e|create|open) (?:the )?(?:hardware|device|VAAPI|MPP|RGA|CUDA|QSV)/i,
+      /No (?:VA display|device available|NVENC capable devices)/i,
+      /Cannot load lib(?:cuda|nvidia-encode)/i,
+      /\b(?:mpp|rga)\b.*(?:fail|error)|(?:fail|error).*\b(?:mpp|rga)\b/i,
+      /Failed setup for format/i,
+      /hwaccel initiali[sz]ation returned error/i,
+      /Impossible to convert between the formats supported by the filter/i,
+      /Error (?:while opening|initializing output stream|initializing filter)/i,
+    ],
+  },
+  {
+    category: 'unsupported-input',
+    patterns: [
+      /Unsupported (?:pixel format|codec|profile|bit depth|input)/i,
+      /(?:pixel format|profile|bit depth) .*not supported/i,
+      /Decoder \(codec [^)]*\) not found/i,
+      /No decoder for/i,
+      /Invalid pixel format/i,
+      /Incompatible pixel format/i,
+    ],
+  },
+  {
+    category: 'corrupt-source',
+    patterns: [
+      /Invalid data found when processing input/i,
+      /moov atom not found/i,
+      /EBML header parsing failed/i,
+      /Truncat(?:ed|ing)/i,
+      /corrupt/i,
+    ],
+  },
+];
+
+/**
+ * Strategies to try, in order, after the default strategy fails with a category
+ * Out of space, killed and corrupt sources won't be fixed by changing encoders
+ */
+const RETRY_CHAINS: Record<FailureCategory, RetryStrategy[]> = {
+  'hardware-init': ['software-decode', 'software'],
+  'unsupported-input': ['software-decode', 'software'],
+  'verification': ['software'],
+  'unknown': ['software'],
+  'corrupt-source': [],
+  'out-of-space': [],
+  'killed': [],
+};
+
+/**
+ * Classify a failed FFmpeg run from its exit status and stderr
+ */
+export function classifyFFmpegFailure(
+  code: number,
+  signal: Deno.Signal | null,
+  stderr: string,
+): FailureCategory {
+  // Space problems surface as odd exit codes too, so check them first
+  if (FAILURE_PATTERNS[0].patterns.some((pattern) => pattern.test(stderr))) {
+    return 'out-of-space';
+  }
+
+  // SIGKILL (OOM killer) or SIGTERM from outside
+  if (signal === 'SIGKILL' || signal === 'SIGTERM' || code === 137 || code === 143) {
+    return 'killed';
+  }
+
+  return classifyFailureMessage(stderr);
+}
+
+/**
+ * Classify a failure from an error message alone
+ */
+export function classifyFailureMessage(message: string): FailureCategory {
+  for (const { category, patterns } of FAILURE_PATTERNS) {
+    if (patterns.some((pattern) => pattern.test(message))) {
+      return category;
+    }
+  }
+  return 'unknown';
+}
+
+/**
+ * Get the strategies worth trying for a file, in order
+ * Strategies that make no difference for a software backend are left out
+ */
+export function getStrategyChain(
+  backend: EncoderBackend,
+  category?: FailureCategory,
+): RetryStrategy[] {
+  const chain: RetryStrategy[] = ['default', ...(category ? RETRY_CHAINS[category] : [])];
+  if (backend.hardware) {
+    return chain;
+  }
+  return chain.filter((strategy) => strategy === 'default');
+}
+
+/**
+ * Get the strategy that comes after `current` for a failure category, if any
+ */
+export function getNextStrategy(
+  backend: EncoderBackend,
+  category: FailureCategory,
+  current: RetryStrategy,
+): RetryStrategy | undefined {
+  const chain = getStrategyChain(backend, category);
+  const index = chain.indexOf(current);
+  return index >= 0 ? chain[index + 1] : undefined;
+}
+
+/**
+ * Pick the strategy to start with, continuing from where an earlier run left off
+ * so a file is not retried the same failing way every night
+ * Interrupted records keep the category and strategy of the last real failure
+ */
+export function getInitialStrategy(
+  backend: EncoderBackend,
+  previous?: ErrorRecord | null,
+): RetryStrategy {
+  if (!previous?.category || !previous.strategy || !backend.hardware) {
+    return 'default';
+  }
+  return getNextStrategy(backend, previous.category, previous.strategy) ?? previous.strategy;
+}
@@ -3,8 +3,11 @@
  * Extracts media information using ffprobe
  */
 
-import type { Config, FFProbeOutput, VideoStreamInfo } from './types.ts';
+import type { Config, FFProbeOutput, StreamInfo, VideoColorInfo, VideoStreamInfo } from './types.ts';
+import { selectMainVideoStream } from './streams.ts';
+import { detectColorInfo } from './hdr.ts';
 import { getLogger } from './logger.ts';
+import { getProcessRegistry } from '../shared/process.ts';
 
 const logger = getLogger().child('ffprobe');
 
@@ -12,8 +15,13 @@ const logger = getLogger().child('ffprobe');
 export interface ProbeResult {
   path: string;
   video: VideoStreamInfo | null;
+  /** Bit depth and HDR description of the main video stream */
+  color: VideoColorInfo | null;
   hasAudio: boolean;
   hasSubtitles: boolean;
+  audioStreamCount: number;
+  subtitleStreamCount: number;
+  streams: StreamInfo[];
   duration: number;
   fileSize: number;
   formatName: string;
@@ -37,7 +45,7 @@ async function runFFprobe(ffprobePath: string, filePath: string): Promise<FFProb
     stderr: 'piped',
   });
 
-  const { code, stdout, stderr } = await command.output();
+  const { code, stdout, stderr } = await getProcessRegistry().output(command, filePath, 'probe', filePath);
 
   if (code !== 0) {
     const errorText = new TextDecoder().decode(stderr);
@@ -48,6 +56,38 @@ async function runFFprobe(ffprobePath: string, filePath: string): Promise<FFProb
   return JSON.parse(outputText) as FFProbeOutput;
 }
 
+/**
+ * Get a stream's bitrate, falling back to the BPS statistics tag mkvmerge writes
+ */
+function getStreamBitrate(stream: FFProbeOutput['streams'][number]): number | undefined {
+  const bitrate = parseInt(stream.bit_rate ?? stream.tags?.BPS ?? '', 10);
+  return isNaN(bitrate) ? undefined : bitrate;
+}
+
+/**
+ * Convert a raw ffprobe stream into the fields used for stream selection
+ */
+function toStreamInfo(stream: FFProbeOutput['streams'][number]): StreamInfo {
+  const language = stream.tags?.language;
+  return {
+    index: stream.index,
+    codecType: stream.codec_type,
+    codecName: stream.codec_name ?? 'unknown',
+    profile: stream.profile,
+    width: stream.width,
+    height: stream.height,
+    channels: stream.channels,
+    bitrate: getStreamBitrate(stream),
+    language: language && language !== 'und' ? language.toLowerCase() : undefined,
+    title: stream.tags?.title,
+    filename: stream.tags?.filename,
+    mimetype: stream.tags?.mimetype,
+    disposition: Object.entries(stream.disposition ?? {})
+      .filter(([, value]) => value === 1)
+      .map(([flag]) => flag),
+  };
+}
+
 /**
  * Probe a media file and extract relevant information
  */
@@ -56,8 +96,10 @@ export async function probeMediaFile(config: Config, filePath: string): Promise<
 
   const output = await runFFprobe(config.ffprobePath, filePath);
 
-  // Find video stream
-  const videoStream = output.streams.find((s) => s.codec_type === 'video');
+  // Find the main video stream (not cover art)
+  const streams = output.streams.map(toStreamInfo);
+  const mainVideo = selectMainVideoStream(streams);
+  const videoStream = output.streams.find((s) => s.index === mainVideo?.index);
   const audioStream = output.streams.find((s) => s.codec_type === 'audio');
   const subtitleStream = output.streams.find((s) => s.codec_type === 'subtitle');
 
@@ -71,8 +113,12 @@ export async function probeMediaFile(config: Config, filePath: string): Promise<
   const result: ProbeResult = {
     path: filePath,
     video: null,
+    color: null,
     hasAudio: !!audioStream,
     hasSubtitles: !!subtitleStream,
+    audioStreamCount: output.streams.filter((s) => s.codec_type === 'audio').length,
+    subtitleStreamCount: output.streams.filter((s) => s.codec_type === 'subtitle').length,
+    streams,
     duration,
     fileSize,
     formatName: output.format.format_name,
@@ -84,9 +130,14 @@ export async function probeMediaFile(config: Config, filePath: string): Promise<
       width: videoStream.width,
       height: videoStream.height,
       pix_fmt: videoStream.pix_fmt,
-      bit_rate: videoStream.bit_rate,
+      bits_per_raw_sample: videoStream.bits_per_raw_sample,
+      color_transfer: videoStream.color_transfer,
+      color_primaries: videoStream.color_primaries,
+      color_space: videoStream.color_space,
+      bit_rate: videoStream.bit_rate ?? videoStream.tags?.BPS,
       r_frame_rate: videoStream.r_frame_rate,
     };
+    result.color = detectColorInfo(videoStream);
   }
 
   return result;
@@ -100,6 +151,17 @@ export function isHEVC(codecName: string): boolean {
   return hevcNames.includes(codecName.toLowerCase());
 }
 
+/**
+ * Get a frame rate from an ffprobe rate like "24000/1001"
+ * Returns undefined for missing or implausible rates
+ */
+export function parseFrameRate(rate: string | undefined): number | undefined {
+  if (!rate) return undefined;
+  const [num, den] = rate.split('/').map(Number);
+  const fps = den ? num / den : num;
+  return fps > 0 && fps <= 240 ? fps : undefined;
+}
+
 /**
  * Get bitrate as a number (bits per second)
  */
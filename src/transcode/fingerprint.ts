@@ -0,0 +1,159 @@
+/**
+ * Fingerprint module for danger-transcode
+ * Identifies files by content (size plus hashes of the head and tail) so
+ * database records follow renames and moves, and notice replaced downloads
+ */
+
+import type { FileFingerprint, TranscodeDatabase } from './types.ts';
+import {
+  getFingerprintKey,
+  getRecordByFingerprint,
+  getRecordByPath,
+  getRecordPath,
+  invalidateRecord,
+  relinkRecord,
+} from './database.ts';
+import { pathExists } from '../shared/files.ts';
+import { getLogger } from './logger.ts';
+
+const logger = getLogger().child('fingerprint');
+
+/** Bytes hashed at each end of a file */
+const HASH_BYTES = 256 * 1024;
+
+/** A file found on disk, with the stat data compared against fingerprints */
+export interface FingerprintCandidate {
+  path: string;
+  size: number;
+  /** Modification time (ms since epoch) */
+  mtime: number;
+}
+
+/** Outcome of matching discovered files against the database */
+export interface ReconcileResult {
+  /** Records moved to a new path */
+  relinked: { from: string; to: string }[];
+  /** Paths whose content no longer matches their record */
+  invalidated: string[];
+}
+
+/**
+ * Read `length` bytes at `offset` and return their SHA-256 as hex
+ */
+async function hashRange(file: Deno.FsFile, offset: number, length: number): Promise<string> {
+  const buffer = new Uint8Array(length);
+  await file.seek(offset, Deno.SeekMode.Start);
+
+  let read = 0;
+  while (read < length) {
+    const n = await file.read(buffer.subarray(read));
+    if (n === null) break;
+    read += n;
+  }
+
+  const digest = await crypto.subtle.digest('SHA-256', buffer.subarray(0, read));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Compute the fingerprint of a file
+ */
+export async function computeFingerprint(path: string): Promise<FileFingerprint> {
+  const file = await Deno.open(path, { read: true });
+  try {
+    const stat = await file.stat();
+    const length = Math.min(HASH_BYTES, stat.size);
+    const head = await hashRange(file, 0, length);
+    const tail = await hashRange(file, Math.max(0, stat.size - length), length);
+    return {
+      size: stat.size,
+      mtime: stat.mtime?.getTime() ?? 0,
+      head,
+      tail,
+    };
+  } finally {
+    file.close();
+  }
+}
+
+/**
+ * Compute a fingerprint for a new record, logging instead of failing
+ * A record without one is keyed by path, as before fingerprints existed
+ */
+export async function tryComputeFingerprint(path: string): Promise<FileFingerprint | undefined> {
+  try {
+    return await computeFingerprint(path);
+  } catch (error) {
+    logger.warn(`Cannot fingerprint file: ${path}`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Bring the database's path links up to date with the files on disk
+ * - A recorded path whose size or mtime changed is hashed again; different
+ *   content (e.g. a new download) invalidates the record
+ * - An unknown file with the same size as a recorded one is hashed; a match
+ *   whose old path is gone relinks the record to the new path
+ * - Records from before fingerprints existed are fingerprinted in place
+ * Hashing is skipped for files that can't match anything, so a scan of an
+ * unchanged library reads no file contents
+ */
+export async function reconcileDatabase(
+  files: FingerprintCandidate[],
+  db: TranscodeDatabase,
+): Promise<ReconcileResult> {
+  const result: ReconcileResult = { relinked: [], invalidated: [] };
+  const recordedSizes = new Set(
+    Object.values(db.records).map((r) => r.fingerprint?.size).filter((size) => size !== undefined),
+  );
+
+  for (const file of files) {
+    try {
+      const record = getRecordByPath(db, file.path);
+
+      if (record) {
+        const known = record.fingerprint;
+        if (known && known.size === file.size && known.mtime === file.mtime) {
+          continue;
+        }
+
+        const fingerprint = await computeFingerprint(file.path);
+        if (known && getFingerprintKey(known) !== getFingerprintKey(fingerprint)) {
+          logger.info(`Content changed, dropping record: ${file.path}`);
+          invalidateRecord(db, file.path);
+          result.invalidated.push(file.path);
+          continue;
+        }
+
+        // Same content (touched) or a record that predates fingerprints
+        relinkRecord(db, record, file.path, fingerprint);
+        continue;
+      }
+
+      if (!recordedSizes.has(file.size)) {
+        continue;
+      }
+
+      const fingerprint = await computeFingerprint(file.path);
+      const match = getRecordByFingerprint(db, fingerprint);
+      if (!match) {
+        continue;
+      }
+
+      // Leave copies alone; only follow files whose old path is gone
+      const oldPath = getRecordPath(match);
+      if (await pathExists(oldPath)) {
+        continue;
+      }
+
+      logger.info(`Relinked record: ${oldPath} -> ${file.path}`);
+      relinkRecord(db, match, file.path, fingerprint);
+      result.relinked.push({ from: oldPath, to: file.path });
+    } catch (error) {
+      logger.debug(`Cannot fingerprint file: ${file.path}`, error);
+    }
+  }
+
+  return result;
+}
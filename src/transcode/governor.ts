@@ -0,0 +1,203 @@
+/**
+ * Governor module for danger-transcode
+ * Throttles transcoding while the SoC is too hot or the machine is busy with
+ * other work, and lets it continue once readings drop below a hysteresis margin
+ */
+
+import { join } from '@std/path';
+import type { Config, GovernorConfig } from './types.ts';
+import { getProcessRegistry } from './process.ts';
+import { formatDuration } from '../shared/format.ts';
+import { getLogger } from './logger.ts';
+
+const logger = getLogger().child('governor');
+
+/** Sensor readings; null when a sensor isn't available */
+export interface SystemReading {
+  /** Hottest thermal zone (°C) */
+  temperature: number | null;
+  /** 1-minute load average */
+  load: number | null;
+}
+
+/** A period in which the governor throttled transcoding */
+export interface ThrottleEvent {
+  reason: string;
+  start: Date;
+  end?: Date;
+}
+
+/**
+ * Read the hottest thermal zone under `thermalPath` (°C)
+ */
+export async function readTemperature(thermalPath: string): Promise<number | null> {
+  let hottest: number | null = null;
+  try {
+    for await (const entry of Deno.readDir(thermalPath)) {
+      if (!entry.name.startsWith('thermal_zone')) continue;
+      try {
+        const milli = parseInt(await Deno.readTextFile(join(thermalPath, entry.name, 'temp')), 10);
+        if (!isNaN(milli) && (hottest === null || milli / 1000 > hottest)) {
+          hottest = milli / 1000;
+        }
+      } catch {
+        // Zones without a readable temperature are skipped
+      }
+    }
+  } catch {
+    return null;
+  }
+  return hottest;
+}
+
+/**
+ * Read the 1-minute load average from a /proc/loadavg style file
+ */
+export async function readLoadAverage(loadAvgPath: string): Promise<number | null> {
+  try {
+    const load = parseFloat((await Deno.readTextFile(loadAvgPath)).trim().split(/\s+/)[0]);
+    return isNaN(load) ? null : load;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read all sensors the governor uses
+ */
+export async function readSystemState(governor: GovernorConfig): Promise<SystemReading> {
+  return {
+    temperature: governor.maxTemperature > 0 ? await readTemperature(governor.thermalPath) : null,
+    load: governor.maxLoad > 0 ? await readLoadAverage(governor.loadAvgPath) : null,
+  };
+}
+
+/**
+ * Get why transcoding should be throttled, or null when readings are within limits
+ */
+export function getThrottleReason(reading: SystemReading, governor: GovernorConfig): string | null {
+  if (governor.maxTemperature > 0 && reading.temperature !== null &&
+    reading.temperature >= governor.maxTemperature) {
+    return `temperature ${reading.temperature.toFixed(1)}°C (limit ${governor.maxTemperature}°C)`;
+  }
+  if (governor.maxLoad > 0 && reading.load !== null && reading.load >= governor.maxLoad) {
+    return `load ${reading.load.toFixed(2)} (limit ${governor.maxLoad})`;
+  }
+  return null;
+}
+
+/**
+ * Check whether readings have dropped far enough below the limits to resume
+ */
+export function canResume(reading: SystemReading, governor: GovernorConfig): boolean {
+  const coolEnough = governor.maxTemperature <= 0 || reading.temperature === null ||
+    reading.temperature < governor.maxTemperature - governor.temperatureHysteresis;
+  const idleEnough = governor.maxLoad <= 0 || reading.load === null ||
+    reading.load < governor.maxLoad - governor.loadHysteresis;
+  return coolEnough && idleEnough;
+}
+
+/**
+ * Polls the sensors during a run and holds back new jobs while throttled
+ * With the suspend action, running FFmpeg processes are stopped as well
+ */
+export class ResourceGovernor {
+  private timer?: ReturnType<typeof setInterval>;
+  private checking = false;
+  private current: ThrottleEvent | null = null;
+  private waiters: (() => void)[] = [];
+  /** Throttle periods of this run, oldest first */
+  readonly events: ThrottleEvent[] = [];
+
+  constructor(private config: Config) {}
+
+  get isThrottled(): boolean {
+    return this.current !== null;
+  }
+
+  /** Total time spent throttled (seconds) */
+  get throttledSeconds(): number {
+    const now = Date.now();
+    return this.events.reduce(
+      (sum, event) => sum + ((event.end?.getTime() ?? now) - event.start.getTime()) / 1000,
+      0,
+    );
+  }
+
+  /** Take a first reading and start polling; a disabled governor never throttles */
+  async start(): Promise<void> {
+    await this.check();
+    this.timer = setInterval(() => this.check(), this.config.governor.pollSeconds * 1000);
+  }
+
+  /** Stop polling, resuming anything still held back */
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    if (this.current) {
+      this.release('run finished');
+    }
+  }
+
+  /** Wait until new jobs may start */
+  waitForCapacity(): Promise<void> {
+    if (!this.current) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.waiters.push(resolve));
+  }
+
+  /** Read the sensors and throttle or release */
+  async check(): Promise<void> {
+    if (this.checking) return;
+    this.checking = true;
+    try {
+      const governor = this.config.governor;
+      if (!governor.enabled) {
+        if (this.current) this.release('governor disabled');
+        return;
+      }
+
+      const reading = await readSystemState(governor);
+      if (!this.current) {
+        const reason = getThrottleReason(reading, governor);
+        if (reason) this.throttle(reason);
+      } else if (canResume(reading, governor)) {
+        this.release('readings back below limits');
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  private throttle(reason: string): void {
+    this.current = { reason, start: new Date() };
+    this.events.push(this.current);
+
+    if (this.config.governor.action === 'suspend') {
+      const suspended = getProcessRegistry().suspendAll();
+      logger.warn(`Throttling on ${reason}: suspended ${suspended} running jobs`);
+    } else {
+      logger.warn(`Throttling on ${reason}: no new jobs start until it drops`);
+    }
+  }
+
+  private release(why: string): void {
+    if (!this.current) return;
+    this.current.end = new Date();
+    const seconds = (this.current.end.getTime() - this.current.start.getTime()) / 1000;
+    this.current = null;
+
+    const resumed = getProcessRegistry().resumeAll();
+    logger.info(
+      `Throttling ended after ${formatDuration(seconds)} (${why})` +
+        (resumed > 0 ? `, resumed ${resumed} jobs` : ''),
+    );
+
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const resolve of waiters) {
+      resolve();
+    }
+  }
+}
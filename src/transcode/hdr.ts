@@ -0,0 +1,103 @@
+/**
+ * HDR module for danger-transcode
+ * Detects bit depth and HDR formats and decides how HDR sources are handled
+ */
+
+import type { Config, FFProbeOutput, HdrPolicy, MediaFile, VideoColorInfo } from './types.ts';
+
+/** Software tone-mapping chain from PQ/HLG BT.2020 to SDR BT.709 (needs zscale) */
+export const TONEMAP_FILTERS = [
+  'zscale=t=linear:npl=100',
+  'format=gbrpf32le',
+  'zscale=p=bt709',
+  'tonemap=tonemap=hable:desat=0',
+  'zscale=t=bt709:m=bt709:r=tv',
+];
+
+/**
+ * Work out the bit depth of a stream from its sample size or pixel format
+ */
+function getBitDepth(stream: FFProbeOutput['streams'][number]): number {
+  const rawBits = stream.bits_per_raw_sample ? parseInt(stream.bits_per_raw_sample, 10) : NaN;
+  if (!isNaN(rawBits) && rawBits > 0) {
+    return rawBits;
+  }
+  const match = stream.pix_fmt?.match(/p(\d{2})(?:le|be)?$/) ?? stream.pix_fmt?.match(/^p0(\d{2})/);
+  return match ? parseInt(match[1], 10) : 8;
+}
+
+/**
+ * Describe the color of a raw ffprobe video stream
+ */
+export function detectColorInfo(stream: FFProbeOutput['streams'][number]): VideoColorInfo {
+  const info: VideoColorInfo = {
+    bitDepth: getBitDepth(stream),
+    colorTransfer: stream.color_transfer,
+    colorPrimaries: stream.color_primaries,
+    colorSpace: stream.color_space,
+    hdrFormat: null,
+  };
+
+  if (stream.color_transfer === 'smpte2084') {
+    info.hdrFormat = 'hdr10';
+  } else if (stream.color_transfer === 'arib-std-b67') {
+    info.hdrFormat = 'hlg';
+  }
+
+  const dovi = stream.side_data_list?.find(
+    (data) => data.side_data_type === 'DOVI configuration record',
+  );
+  if (dovi) {
+    info.hdrFormat = 'dolby-vision';
+    info.dolbyVisionProfile = dovi.dv_profile;
+    info.dolbyVisionCompatible = (dovi.dv_bl_signal_compatibility_id ?? 0) !== 0;
+  }
+
+  return info;
+}
+
+/**
+ * Get how a file's HDR is handled, or null for SDR sources
+ */
+export function getHdrHandling(file: MediaFile, config: Config): HdrPolicy | null {
+  if (!file.color?.hdrFormat) {
+    return null;
+  }
+  // Profile 5 has no HDR10 base layer; neither keeping nor tone-mapping it gives correct colors
+  if (file.color.dolbyVisionCompatible === false) {
+    return 'skip';
+  }
+  return config.hdr[file.type];
+}
+
+/**
+ * Get the skip reason for HDR content left alone, or null
+ */
+export function getHdrSkipReason(file: MediaFile, config: Config): string | null {
+  if (getHdrHandling(file, config) !== 'skip') {
+    return null;
+  }
+  if (file.color?.dolbyVisionCompatible === false) {
+    const profile = file.color.dolbyVisionProfile ?? '?';
+    return `Dolby Vision profile ${profile} without a compatible base layer`;
+  }
+  return `HDR (${file.color?.hdrFormat}) skipped by policy`;
+}
+
+/**
+ * Output color tags for the chosen HDR handling
+ */
+export function buildColorArgs(file: MediaFile, handling: HdrPolicy | null): string[] {
+  if (handling === 'tonemap') {
+    return ['-color_primaries:v:0', 'bt709', '-color_trc:v:0', 'bt709', '-colorspace:v:0', 'bt709'];
+  }
+  if (handling !== 'preserve' || !file.color) {
+    return [];
+  }
+
+  const args: string[] = [];
+  if (file.color.colorPrimaries) args.push('-color_primaries:v:0', file.color.colorPrimaries);
+  if (file.color.colorTransfer) args.push('-color_trc:v:0', file.color.colorTransfer);
+  if (file.color.colorSpace) args.push('-colorspace:v:0', file.color.colorSpace);
+  return args;
+}
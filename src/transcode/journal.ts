@@ -0,0 +1,345 @@
+/**
+ * Recovery journal module for danger-transcode
+ * Write-ahead journal of file replacements, replayed at startup to repair
+ * swaps interrupted by a crash, plus a sweep of orphaned temp outputs
+ */
+
+import { dirname, join } from '@std/path';
+import { ensureDir } from '@std/fs';
+import type { Config, TranscodeDatabase, TranscodeRecord } from './types.ts';
+import { pathExists, writeTextFileAtomic } from '../shared/files.ts';
+import { addTranscodeRecord, getRecordByPath } from './database.ts';
+import { tryComputeFingerprint } from './fingerprint.ts';
+import { quarantineFile } from './quarantine.ts';
+import { getLogger } from './logger.ts';
+
+const logger = getLogger().child('journal');
+
+/**
+ * Temp outputs and sync directories modified more recently than this may belong
+ * to a sync running alongside, which doesn't take the lock
+ */
+const TEMP_MIN_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Steps of a replacement, in order
+ * - begin: about to rename the original to its backup path
+ * - backed-up: original is at the backup path, transcoded file not yet in place
+ * - replaced: transcoded file is in place, backup still exists
+ * - complete / rolled-back: nothing left to do
+ */
+export type ReplacementStep = 'begin' | 'backed-up' | 'replaced' | 'complete' | 'rolled-back';
+
+/** A single journal line */
+export interface JournalEntry {
+  id: string;
+  step: ReplacementStep;
+  originalPath: string;
+  backupPath: string;
+  transcodedPath: string;
+  /** Final path of the transcoded file; absent in older entries, where it is the original path */
+  outputPath?: string;
+  timestamp: string;
+}
+
+/** Outcome of replaying the journal and sweeping temp files */
+export interface RecoveryReport {
+  completed: string[];
+  rolledBack: string[];
+  unrecoverable: string[];
+  orphanedTempFiles: string[];
+  orphanedSyncDirs: string[];
+}
+
+/**
+ * Append a step to the journal, flushed to disk before returning
+ */
+export async function appendJournalEntry(
+  config: Config,
+  entry: Omit<JournalEntry, 'timestamp'>,
+): Promise<void> {
+  await ensureDir(dirname(config.journalPath));
+
+  const line = JSON.stringify({ ...entry, timestamp: new Date().toISOString() }) + '\n';
+  const file = await Deno.open(config.journalPath, { append: true, create: true });
+  try {
+    await file.write(new TextEncoder().encode(line));
+    await file.syncData();
+  } finally {
+    file.close();
+  }
+}
+
+/**
+ * Read all journal entries, ignoring a torn final line
+ */
+export async function readJournal(config: Config): Promise<JournalEntry[]> {
+  let content: string;
+  try {
+    content = await Deno.readTextFile(config.journalPath);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return [];
+    }
+    throw error;
+  }
+
+  const entries: JournalEntry[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as JournalEntry);
+    } catch {
+      logger.warn('Ignoring unreadable journal line');
+    }
+  }
+  return entries;
+}
+
+/**
+ * Get the last recorded step of every replacement in the journal
+ */
+function getPendingReplacements(entries: JournalEntry[]): JournalEntry[] {
+  const latest = new Map<string, JournalEntry>();
+  for (const entry of entries) {
+    latest.set(entry.id, entry);
+  }
+  return [...latest.values()].filter(
+    (entry) => entry.step !== 'complete' && entry.step !== 'rolled-back',
+  );
+}
+
+/**
+ * Put the backup back at the original path, discarding whatever is there now
+ */
+async function rollBack(entry: JournalEntry): Promise<void> {
+  const outputPath = entry.outputPath ?? entry.originalPath;
+  if (await pathExists(outputPath)) {
+    // A partial (or complete) copy of the transcoded file
+    await Deno.remove(outputPath);
+  }
+  await Deno.rename(entry.backupPath, entry.originalPath);
+}
+
+/**
+ * Get the record of a file whose replacement finished in a crashed run,
+ * creating one when the run died before recording it
+ * The details of that encode died with the run; only the sizes are known
+ */
+async function getRecoveredRecord(
+  entry: JournalEntry,
+  db: TranscodeDatabase,
+): Promise<TranscodeRecord> {
+  const outputPath = entry.outputPath ?? entry.originalPath;
+  const existing = getRecordByPath(db, outputPath);
+  if (existing?.success && !existing.reverted) {
+    return existing;
+  }
+
+  const record: TranscodeRecord = {
+    originalPath: entry.originalPath,
+    transcodedAt: entry.timestamp,
+    originalCodec: 'unknown',
+    originalWidth: 0,
+    originalHeight: 0,
+    newWidth: 0,
+    newHeight: 0,
+    originalSize: (await Deno.stat(entry.backupPath)).size,
+    newSize: (await Deno.stat(outputPath)).size,
+    duration: 0,
+    success: true,
+  };
+  if (outputPath !== entry.originalPath) {
+    record.outputPath = outputPath;
+  }
+  record.fingerprint = await tryComputeFingerprint(outputPath);
+  return record;
+}
+
+/**
+ * Keep the backup of a finished replacement in quarantine, as a completed
+ * replacement would, or delete it when quarantine is disabled or fails
+ */
+async function settleBackup(
+  entry: JournalEntry,
+  config: Config,
+  db: TranscodeDatabase,
+): Promise<void> {
+  if (config.quarantine.enabled) {
+    try {
+      const record = await getRecoveredRecord(entry, db);
+      record.quarantinePath = await quarantineFile(config, entry.backupPath, entry.originalPath);
+      record.quarantinedAt = new Date().toISOString();
+      addTranscodeRecord(db, record);
+      return;
+    } catch (error) {
+      logger.warn(
+        `Failed to quarantine original, deleting it instead: ${entry.originalPath}`,
+        error,
+      );
+    }
+  }
+  await Deno.remove(entry.backupPath);
+}
+
+/**
+ * Finish or roll back a single interrupted replacement
+ */
+async function recoverReplacement(
+  entry: JournalEntry,
+  config: Config,
+  db: TranscodeDatabase,
+  report: RecoveryReport,
+): Promise<void> {
+  const hasBackup = await pathExists(entry.backupPath);
+  const hasOriginal = await pathExists(entry.originalPath);
+  const hasOutput = await pathExists(entry.outputPath ?? entry.originalPath);
+
+  switch (entry.step) {
+    case 'begin':
+    case 'backed-up':
+      // The transcoded file may be missing or half-copied: go back to the original
+      if (hasBackup) {
+        await rollBack(entry);
+        report.rolledBack.push(entry.originalPath);
+      } else if (hasOriginal && entry.step === 'begin') {
+        // Crashed before the rename; nothing was touched
+        report.rolledBack.push(entry.originalPath);
+      } else {
+        report.unrecoverable.push(entry.originalPath);
+      }
+      break;
+
+    case 'replaced':
+      // The verified transcode is in place; only the backup is left over
+      if (hasOutput) {
+        if (hasBackup) {
+          await settleBackup(entry, config, db);
+        }
+        report.completed.push(entry.originalPath);
+      } else if (hasBackup) {
+        await rollBack(entry);
+        report.rolledBack.push(entry.originalPath);
+      } else {
+        report.unrecoverable.push(entry.originalPath);
+      }
+      break;
+  }
+}
+
+/**
+ * Remove temp outputs and sync working directories left behind by killed runs
+ */
+async function sweepOrphanedTempFiles(config: Config, report: RecoveryReport): Promise<void> {
+  let entries: Deno.DirEntry[];
+  try {
+    entries = await Array.fromAsync(Deno.readDir(config.tempDir));
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return;
+    throw error;
+  }
+
+  for (const entry of entries) {
+    const path = join(config.tempDir, entry.name);
+
+    const isTempOutput = entry.isFile && entry.name.includes('.transcoding.');
+    const isSyncDir = entry.isDirectory && entry.name.startsWith('sync_');
+    if (!isTempOutput && !isSyncDir) continue;
+
+    try {
+      const stat = await Deno.stat(path);
+      const age = Date.now() - (stat.mtime?.getTime() ?? Date.now());
+      if (age < TEMP_MIN_AGE_MS) continue;
+
+      await Deno.remove(path, { recursive: isSyncDir });
+      (isSyncDir ? report.orphanedSyncDirs : report.orphanedTempFiles).push(path);
+    } catch (error) {
+      logger.warn(`Failed to remove orphaned temp path: ${path}`, error);
+    }
+  }
+}
+
+/**
+ * Replay the replacement journal and sweep orphaned temp files
+ * Originals kept from finished replacements are recorded in `db`, which the
+ * caller saves; must only be called while holding the process lock
+ */
+export async function runStartupRecovery(
+  config: Config,
+  db: TranscodeDatabase,
+): Promise<RecoveryReport> {
+  const report: RecoveryReport = {
+    completed: [],
+    rolledBack: [],
+    unrecoverable: [],
+    orphanedTempFiles: [],
+    orphanedSyncDirs: [],
+  };
+
+  const pending = getPendingReplacements(await readJournal(config));
+
+  if (config.dryRun) {
+    if (pending.length > 0) {
+      logger.warn(`Dry run - ${pending.length} interrupted replacements left for the next run`);
+    }
+    return report;
+  }
+
+  const unrecoverable: JournalEntry[] = [];
+  for (const entry of pending) {
+    const before = report.unrecoverable.length;
+    try {
+      await recoverReplacement(entry, config, db, report);
+    } catch (error) {
+      logger.error(`Failed to recover replacement of ${entry.originalPath}:`, error);
+      report.unrecoverable.push(entry.originalPath);
+    }
+    if (report.unrecoverable.length > before) {
+      unrecoverable.push(entry);
+    }
+  }
+
+  // Start a fresh journal, keeping the replacements that still need a manual check
+  if (await pathExists(config.journalPath)) {
+    await writeTextFileAtomic(
+      config.journalPath,
+      unrecoverable.map((entry) => JSON.stringify(entry) + '\n').join(''),
+    );
+  }
+
+  await sweepOrphanedTempFiles(config, report);
+
+  logRecoveryReport(report);
+  return report;
+}
+
+/**
+ * Log what startup recovery did
+ */
+function logRecoveryReport(report: RecoveryReport): void {
+  for (const path of report.completed) {
+    logger.info(`Recovered interrupted replacement (completed): ${path}`);
+  }
+  for (const path of report.rolledBack) {
+    logger.info(`Recovered interrupted replacement (rolled back): ${path}`);
+  }
+  for (const path of report.unrecoverable) {
+    logger.error(`Could not recover interrupted replacement, check manually: ${path}`);
+  }
+  for (const path of report.orphanedTempFiles) {
+    logger.debug(`Removed orphaned temp output: ${path}`);
+  }
+  for (const path of report.orphanedSyncDirs) {
+    logger.debug(`Removed orphaned sync directory: ${path}`);
+  }
+
+  const replacements = report.completed.length + report.rolledBack.length;
+  const orphans = report.orphanedTempFiles.length + report.orphanedSyncDirs.length;
+  if (replacements > 0 || orphans > 0 || report.unrecoverable.length > 0) {
+    logger.info(
+      `Startup recovery: ${report.completed.length} completed, ${report.rolledBack.length} rolled back, ` +
+        `${report.unrecoverable.length} unrecoverable, ${report.orphanedTempFiles.length} temp outputs and ` +
+        `${report.orphanedSyncDirs.length} sync directories removed`,
+    );
+  }
+}
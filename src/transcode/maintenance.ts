@@ -0,0 +1,472 @@
+/**
+ * Database maintenance module for danger-transcode
+ * Pruning, verification, CSV import/export and savings breakdowns
+ * behind the `db` command
+ */
+
+import { dirname, join, relative } from '@std/path';
+import type { Config, MediaType, TranscodeDatabase, TranscodeRecord } from './types.ts';
+import { getRecordKey, getRecordPath, putRecord, removeRecord } from './database.ts';
+import { isHEVC, probeMediaFile } from './ffprobe.ts';
+import { classifyMediaType, discoverMediaFiles } from './scanner.ts';
+import { reconcileDatabase } from './fingerprint.ts';
+import { pathExists } from '../shared/files.ts';
+import { getLogger } from './logger.ts';
+
+const logger = getLogger().child('maintenance');
+
+/** Outcome of pruning entries for files that no longer exist */
+export interface PruneReport {
+  records: number;
+  errors: number;
+  calibrations: number;
+  /** Records of moved files found again by fingerprint */
+  relinked: number;
+  /** Media directories left alone because they are missing or empty (not mounted) */
+  unavailableDirs: string[];
+  /** Records of missing files kept because their original is still quarantined */
+  quarantined: number;
+}
+
+/** A recorded file that no longer matches its record */
+export interface VerifyProblem {
+  path: string;
+  problem: 'missing' | 'size' | 'codec' | 'unreadable';
+  detail: string;
+}
+
+/** Outcome of verifying recorded files */
+export interface VerifyReport {
+  checked: number;
+  problems: VerifyProblem[];
+}
+
+/** Outcome of importing entries into the database */
+export interface ImportResult {
+  added: number;
+  updated: number;
+  /** Entries older than the ones already in the database */
+  skipped: number;
+}
+
+/** Entries read from an export file; tables left out are not touched by an import */
+export type DatabaseImport = Partial<
+  Pick<TranscodeDatabase, 'records' | 'errors' | 'calibrations'>
+>;
+
+/** Savings of a group of transcoded files */
+export interface SavingsGroup {
+  count: number;
+  originalSize: number;
+  newSize: number;
+}
+
+/** Savings grouped by show or movie directory, media type and source codec */
+export interface SavingsBreakdown {
+  byDirectory: Record<string, SavingsGroup>;
+  byType: Record<MediaType, SavingsGroup>;
+  byCodec: Record<string, SavingsGroup>;
+}
+
+/** Record columns written to CSV, with the type they are parsed back as */
+const CSV_COLUMNS: { name: keyof TranscodeRecord; type: 'string' | 'number' | 'boolean' }[] = [
+  { name: 'originalPath', type: 'string' },
+  { name: 'outputPath', type: 'string' },
+  { name: 'transcodedAt', type: 'string' },
+  { name: 'originalCodec', type: 'string' },
+  { name: 'originalWidth', type: 'number' },
+  { name: 'originalHeight', type: 'number' },
+  { name: 'newWidth', type: 'number' },
+  { name: 'newHeight', type: 'number' },
+  { name: 'originalSize', type: 'number' },
+  { name: 'newSize', type: 'number' },
+  { name: 'duration', type: 'number' },
+  { name: 'success', type: 'boolean' },
+  { name: 'error', type: 'string' },
+  { name: 'strategy', type: 'string' },
+  { name: 'hdrHandling', type: 'string' },
+  { name: 'quarantinePath', type: 'string' },
+  { name: 'quarantinedAt', type: 'string' },
+  { name: 'reverted', type: 'boolean' },
+  { name: 'revertedAt', type: 'string' },
+  { name: 'predictedSize', type: 'number' },
+  { name: 'predictedSeconds', type: 'number' },
+];
+
+/** Fingerprint columns, flattened after the record columns */
+const FINGERPRINT_COLUMNS = [
+  'fingerprintSize',
+  'fingerprintMtime',
+  'fingerprintHead',
+  'fingerprintTail',
+];
+
+/**
+ * Get the media directories that are missing or empty, as an unmounted share is
+ */
+async function getUnavailableMediaDirs(config: Config): Promise<string[]> {
+  const unavailable: string[] = [];
+  for (const dir of config.mediaDirs) {
+    try {
+      if ((await Deno.stat(dir)).isDirectory) {
+        const first = await Deno.readDir(dir)[Symbol.asyncIterator]().next();
+        if (!first.done) continue;
+      }
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+    unavailable.push(dir);
+  }
+  return unavailable;
+}
+
+/**
+ * Check whether a path is inside one of `dirs`
+ */
+function isInsideDirs(path: string, dirs: string[]): boolean {
+  return dirs.some((dir) => path.startsWith(`${dir.replace(/\/+$/, '')}/`));
+}
+
+/**
+ * Drop records, errors and calibrations for files that no longer exist
+ * Moved files are relinked by fingerprint first, and nothing under a missing
+ * or empty media directory is touched, so an unmounted library isn't wiped.
+ * Records whose original is still quarantined are kept until the quarantine
+ * prune expires it, so the original stays restorable
+ */
+export async function pruneDatabase(config: Config, db: TranscodeDatabase): Promise<PruneReport> {
+  const report: PruneReport = {
+    records: 0,
+    errors: 0,
+    calibrations: 0,
+    relinked: 0,
+    unavailableDirs: await getUnavailableMediaDirs(config),
+    quarantined: 0,
+  };
+  for (const dir of report.unavailableDirs) {
+    logger.warn(`Media directory missing or empty, not pruning under it: ${dir}`);
+  }
+
+  const discovery = await discoverMediaFiles(config);
+  report.relinked = (await reconcileDatabase(discovery.files, db)).relinked.length;
+
+  const isPrunable = async (path: string): Promise<boolean> =>
+    !isInsideDirs(path, report.unavailableDirs) && !await pathExists(path);
+
+  for (const [key, record] of Object.entries(db.records)) {
+    const path = getRecordPath(record);
+    if (!await isPrunable(path)) {
+      continue;
+    }
+    if (record.quarantinePath && await pathExists(record.quarantinePath)) {
+      logger.info(`Keeping record while its original is quarantined: ${path}`);
+      report.quarantined++;
+      continue;
+    }
+
+    logger.info(`${config.dryRun ? 'Dry run - would prune' : 'Pruning'} record: ${path}`);
+    if (!config.dryRun) {
+      removeRecord(db, key);
+    }
+    report.records++;
+  }
+
+  for (const path of Object.keys(db.errors)) {
+    if (await isPrunable(path)) {
+      if (!config.dryRun) delete db.errors[path];
+      report.errors++;
+    }
+  }
+
+  for (const path of Object.keys(db.calibrations)) {
+    if (await isPrunable(path)) {
+      if (!config.dryRun) delete db.calibrations[path];
+      report.calibrations++;
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Check that recorded files still have their transcoded size and codec
+ * Reverted records and kept originals are only checked for existence
+ */
+export async function verifyDatabase(
+  config: Config,
+  db: TranscodeDatabase,
+  options: { probe: boolean },
+): Promise<VerifyReport> {
+  const report: VerifyReport = { checked: 0, problems: [] };
+
+  for (const record of Object.values(db.records)) {
+    const path = getRecordPath(record);
+    report.checked++;
+
+    let size: number;
+    try {
+      size = (await Deno.stat(path)).size;
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+      report.problems.push({ path, problem: 'missing', detail: 'file not found' });
+      continue;
+    }
+
+    const transcoded = record.success && !record.reverted && !record.error;
+    if (!transcoded) {
+      continue;
+    }
+
+    if (size !== record.newSize) {
+      report.problems.push({
+        path,
+        problem: 'size',
+        detail: `${size} bytes, recorded ${record.newSize}`,
+      });
+      continue;
+    }
+
+    if (!options.probe) {
+      continue;
+    }
+
+    try {
+      const probe = await probeMediaFile(config, path);
+      const codec = probe.video?.codec_name ?? 'none';
+      if (!isHEVC(codec)) {
+        report.problems.push({ path, problem: 'codec', detail: `video codec is ${codec}` });
+      }
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : String(error);
+      report.problems.push({ path, problem: 'unreadable', detail });
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Quote a CSV field when it needs it
+ */
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value;
+}
+
+/**
+ * Split CSV text into rows of fields, handling quoted fields and CRLF line ends
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((value) => value !== ''));
+}
+
+/**
+ * Write the database's records as CSV, one row per record
+ */
+export function recordsToCsv(db: TranscodeDatabase): string {
+  const header = [...CSV_COLUMNS.map((column) => column.name), ...FINGERPRINT_COLUMNS];
+  const lines = [header.join(',')];
+
+  for (const record of Object.values(db.records)) {
+    const fields = CSV_COLUMNS.map((column) => {
+      const value = record[column.name];
+      return value === undefined ? '' : escapeCsvField(String(value));
+    });
+    const fingerprint = record.fingerprint;
+    fields.push(
+      fingerprint ? String(fingerprint.size) : '',
+      fingerprint ? String(fingerprint.mtime) : '',
+      fingerprint?.head ?? '',
+      fingerprint?.tail ?? '',
+    );
+    lines.push(fields.join(','));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Read records from CSV written by recordsToCsv
+ * Columns are matched by header, so files edited in a spreadsheet still load
+ */
+export function csvToRecords(text: string): TranscodeRecord[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header || !header.includes('originalPath')) {
+    throw new Error('CSV has no originalPath column');
+  }
+
+  return rows.map((fields, row) => {
+    const get = (name: string): string => fields[header.indexOf(name)] ?? '';
+    const record: Record<string, unknown> = {};
+
+    for (const column of CSV_COLUMNS) {
+      const value = get(column.name);
+      if (value === '') continue;
+      if (column.type === 'number') {
+        const number = Number(value);
+        if (isNaN(number)) {
+          throw new Error(`Row ${row + 2}: ${column.name} is not a number: ${value}`);
+        }
+        record[column.name] = number;
+      } else if (column.type === 'boolean') {
+        record[column.name] = value === 'true';
+      } else {
+        record[column.name] = value;
+      }
+    }
+
+    if (!record.originalPath) {
+      throw new Error(`Row ${row + 2}: originalPath is empty`);
+    }
+    if (get('fingerprintHead') && get('fingerprintTail')) {
+      record.fingerprint = {
+        size: Number(get('fingerprintSize')),
+        mtime: Number(get('fingerprintMtime')),
+        head: get('fingerprintHead'),
+        tail: get('fingerprintTail'),
+      };
+    }
+    return record as unknown as TranscodeRecord;
+  });
+}
+
+/**
+ * Import entries into the database
+ * Without `merge` every imported table replaces the current one; with it,
+ * entries are added and conflicts keep whichever side is newer
+ */
+export function importDatabase(
+  db: TranscodeDatabase,
+  imported: DatabaseImport,
+  merge: boolean,
+): ImportResult {
+  const result: ImportResult = { added: 0, updated: 0, skipped: 0 };
+  const count = (exists: boolean) => exists ? result.updated++ : result.added++;
+
+  if (imported.records) {
+    if (!merge) {
+      db.records = {};
+      db.paths = {};
+    }
+    for (const record of Object.values(imported.records)) {
+      const existing = db.records[getRecordKey(record)];
+      if (existing && existing.transcodedAt >= record.transcodedAt) {
+        result.skipped++;
+        continue;
+      }
+      count(!!existing);
+      putRecord(db, record);
+    }
+  }
+
+  if (imported.errors) {
+    if (!merge) db.errors = {};
+    for (const [path, error] of Object.entries(imported.errors)) {
+      const existing = db.errors[path];
+      if (existing && existing.timestamp >= error.timestamp) {
+        result.skipped++;
+        continue;
+      }
+      count(!!existing);
+      db.errors[path] = error;
+    }
+  }
+
+  if (imported.calibrations) {
+    if (!merge) db.calibrations = {};
+    for (const [path, calibration] of Object.entries(imported.calibrations)) {
+      const existing = db.calibrations[path];
+      if (existing && existing.calibratedAt >= calibration.calibratedAt) {
+        result.skipped++;
+        continue;
+      }
+      count(!!existing);
+      db.calibrations[path] = calibration;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Get the directory a recorded file's savings are grouped under: the show or
+ * movie folder directly below its media directory
+ */
+function getGroupDirectory(path: string, config: Config): string {
+  for (const mediaDir of config.mediaDirs) {
+    const rel = relative(mediaDir, path);
+    if (!rel.startsWith('..') && rel !== path) {
+      const [first, ...rest] = rel.split('/');
+      return rest.length > 0 ? join(mediaDir, first) : mediaDir;
+    }
+  }
+  return dirname(path);
+}
+
+/**
+ * Add a record's sizes to a group
+ */
+function addToGroup(groups: Record<string, SavingsGroup>, key: string, record: TranscodeRecord) {
+  const group = groups[key] ??= { count: 0, originalSize: 0, newSize: 0 };
+  group.count++;
+  group.originalSize += record.originalSize;
+  group.newSize += record.newSize;
+}
+
+/**
+ * Break down savings of transcoded (not reverted) files by directory, type and codec
+ */
+export function getSavingsBreakdown(db: TranscodeDatabase, config: Config): SavingsBreakdown {
+  const breakdown: SavingsBreakdown = {
+    byDirectory: {},
+    byType: {} as Record<MediaType, SavingsGroup>,
+    byCodec: {},
+  };
+
+  for (const record of Object.values(db.records)) {
+    if (!record.success || record.reverted) {
+      continue;
+    }
+    const path = getRecordPath(record);
+    addToGroup(breakdown.byDirectory, getGroupDirectory(path, config), record);
+    addToGroup(breakdown.byType, classifyMediaType(path), record);
+    addToGroup(breakdown.byCodec, record.originalCodec || 'unknown', record);
+  }
+
+  return breakdown;
+}
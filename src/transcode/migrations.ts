@@ -0,0 +1,59 @@
+/**
+ * Migrations module for danger-transcode
+ * Versioned steps that bring databases written by older releases up to date
+ */
+
+import type { TranscodeDatabase } from './types.ts';
+
+/** A step from the previous database version to `version` */
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (db: TranscodeDatabase) => void;
+}
+
+/** All migrations, in version order; add new ones at the end */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Index records by path so they can be keyed by content fingerprint',
+    migrate: (db) => {
+      // Version 1 keyed records by path; they are fingerprinted on the next scan
+      db.paths = Object.fromEntries(Object.keys(db.records).map((path) => [path, path]));
+    },
+  },
+];
+
+/** Version written by this release */
+export const DATABASE_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Get the migrations a database at `version` still needs, in order
+ * Throws for databases written by a newer release
+ */
+export function getPendingMigrations(version: number): Migration[] {
+  if (version > DATABASE_VERSION) {
+    throw new Error(
+      `Database version ${version} is newer than this release supports (${DATABASE_VERSION})`,
+    );
+  }
+  return MIGRATIONS.filter((migration) => migration.version > version);
+}
+
+/**
+ * Run a database's pending migrations in place
+ * Returns the migrations applied
+ */
+export function runMigrations(db: TranscodeDatabase): Migration[] {
+  const pending = getPendingMigrations(db.version ?? 1);
+  for (const migration of pending) {
+    migration.migrate(db);
+    db.version = migration.version;
+  }
+
+  // Tables added without a version bump
+  db.paths ??= {};
+  db.errors ??= {};
+  db.calibrations ??= {};
+  return pending;
+}
@@ -0,0 +1,117 @@
+/**
+ * Ordering module for danger-transcode
+ * Strategies for the order files are transcoded in
+ */
+
+import type { Config, MediaFile, OrderStrategy } from './types.ts';
+import { estimateTranscodeTime } from './transcoder.ts';
+import { getEncoderBackend } from './encoders.ts';
+import { getPredictedSize, type PredictionCorrection } from './prediction.ts';
+
+/** Estimated cost and benefit of transcoding a file */
+export interface FileEstimate {
+  /** Encode time (seconds) */
+  seconds: number;
+  /** Bytes saved, or null without a prediction */
+  savings: number | null;
+}
+
+/**
+ * Estimate a file's encode time and saving, corrected by recent transcodes
+ */
+export function estimateFile(
+  file: MediaFile,
+  config: Config,
+  correction: PredictionCorrection,
+): FileEstimate {
+  const seconds = estimateTranscodeTime(
+    file.duration ?? 0,
+    file.targetHeight ?? file.height,
+    getEncoderBackend(config).hardware,
+    file.prediction,
+    correction.time,
+  );
+  const predicted = getPredictedSize(file, config, correction);
+  return { seconds, savings: predicted === null ? null : file.size - predicted };
+}
+
+/**
+ * Check whether a path is inside a directory
+ */
+function isUnder(path: string, dir: string): boolean {
+  const prefix = dir.replace(/\/+$/, '');
+  return path === prefix || path.startsWith(`${prefix}/`);
+}
+
+/**
+ * Interleave files across the media directories, largest first within each
+ * Files outside every media directory come last
+ */
+function roundRobin(bySize: MediaFile[], mediaDirs: string[]): MediaFile[] {
+  const groups: MediaFile[][] = mediaDirs.map(() => []);
+  const other: MediaFile[] = [];
+  for (const file of bySize) {
+    // The longest match wins for nested media directories
+    let best = -1;
+    for (const [i, dir] of mediaDirs.entries()) {
+      if (isUnder(file.path, dir) && (best === -1 || dir.length > mediaDirs[best].length)) {
+        best = i;
+      }
+    }
+    (best === -1 ? other : groups[best]).push(file);
+  }
+
+  const ordered: MediaFile[] = [];
+  for (let i = 0; ordered.length < bySize.length - other.length; i++) {
+    for (const group of groups) {
+      if (i < group.length) ordered.push(group[i]);
+    }
+  }
+  return [...ordered, ...other];
+}
+
+/**
+ * Order files for transcoding; ties keep largest-first order
+ * - largest: biggest files first
+ * - savings-rate: most predicted bytes saved per encode-second first
+ * - newest: most recently modified first, so recent downloads shrink before backups run
+ * - directory: files under `ordering.directoryPriority` first, in list order
+ * - shortest: quickest encodes first
+ * - round-robin: alternate between the media directories
+ */
+export function orderFiles(
+  files: MediaFile[],
+  config: Config,
+  correction: PredictionCorrection,
+  strategy: OrderStrategy = config.ordering.strategy,
+): MediaFile[] {
+  const bySize = [...files].sort((a, b) => b.size - a.size);
+
+  const sortBy = (key: (file: MediaFile) => number) => {
+    const keys = new Map(bySize.map((file) => [file, key(file)]));
+    return bySize.sort((a, b) => (keys.get(a) ?? 0) - (keys.get(b) ?? 0));
+  };
+
+  switch (strategy) {
+    case 'largest':
+      return bySize;
+    case 'savings-rate':
+      return sortBy((file) => {
+        const { seconds, savings } = estimateFile(file, config, correction);
+        return -(savings ?? 0) / Math.max(seconds, 1);
+      });
+    case 'newest':
+      return sortBy((file) => -(file.mtime ?? 0));
+    case 'directory': {
+      const dirs = config.ordering.directoryPriority;
+      return sortBy((file) => {
+        const rank = dirs.findIndex((dir) => isUnder(file.path, dir));
+        return rank === -1 ? dirs.length : rank;
+      });
+    }
+    case 'shortest':
+      return sortBy((file) => estimateFile(file, config, correction).seconds);
+    case 'round-robin':
+      return roundRobin(bySize, config.mediaDirs);
+  }
+}
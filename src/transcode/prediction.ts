@@ -0,0 +1,145 @@
+/**
+ * Prediction module for danger-transcode
+ * Extrapolates output size and encode time from a few sample encodes, and
+ * learns how far off past predictions were from finished transcodes
+ */
+
+import { ensureDir } from '@std/fs';
+import type { Config, MediaFile, SizePrediction, TranscodeDatabase } from './types.ts';
+import { getLogger } from './logger.ts';
+import { formatDuration, formatFileSize } from './ffprobe.ts';
+import {
+  describeSmallSaving,
+  getSourceVideoBitrate,
+  predictOutputSize,
+  selectTargetBitrate,
+} from './bitrate.ts';
+import { encodeSample, getSamplePath, getSampleStarts, removeSample } from './samples.ts';
+
+const logger = getLogger().child('prediction');
+
+/** Number of recent transcodes the correction factors are averaged over */
+const CORRECTION_WINDOW = 20;
+
+/** Ratio of actual to predicted size and time over recent transcodes (1 = spot on) */
+export interface PredictionCorrection {
+  size: number;
+  time: number;
+  /** Number of transcodes the factors are based on */
+  count: number;
+}
+
+/**
+ * Encode samples of a file and extrapolate its output size and encode time
+ * Streams other than the main video are assumed to keep their size
+ * Returns null for files too short to sample
+ */
+export async function predictTranscode(
+  file: MediaFile,
+  config: Config,
+): Promise<SizePrediction | null> {
+  const { samples, sampleSeconds } = config.prediction;
+  if (!file.duration || file.duration < sampleSeconds) {
+    return null;
+  }
+
+  await ensureDir(config.tempDir);
+  const starts = getSampleStarts(file.duration, samples, sampleSeconds);
+
+  let totalBytes = 0;
+  let totalElapsed = 0;
+  for (const [i, start] of starts.entries()) {
+    const samplePath = getSamplePath(config, file, i);
+    try {
+      const startTime = Date.now();
+      await encodeSample(file, config, start, sampleSeconds, samplePath);
+      totalElapsed += (Date.now() - startTime) / 1000;
+      totalBytes += (await Deno.stat(samplePath)).size;
+    } finally {
+      await removeSample(samplePath);
+    }
+  }
+
+  const encodedSeconds = starts.length * sampleSeconds;
+  const sampleBitrate = Math.round((totalBytes * 8) / encodedSeconds);
+  const sourceVideoBitrate = getSourceVideoBitrate(file);
+  const otherBytes = sourceVideoBitrate
+    ? Math.max(0, file.size - (sourceVideoBitrate * file.duration) / 8)
+    : 0;
+
+  return {
+    size: Math.round(otherBytes + (sampleBitrate * file.duration) / 8),
+    encodeSeconds: Math.round((file.duration * totalElapsed) / encodedSeconds),
+    sampleBitrate,
+  };
+}
+
+/**
+ * Work out how far predictions were off for the most recent replaced transcodes
+ */
+export function getPredictionCorrection(db: TranscodeDatabase): PredictionCorrection {
+  const recent = Object.values(db.records)
+    .filter((r) => r.success && !r.error && r.predictedSize && r.predictedSeconds)
+    .sort((a, b) => b.transcodedAt.localeCompare(a.transcodedAt))
+    .slice(0, CORRECTION_WINDOW);
+
+  if (recent.length === 0) {
+    return { size: 1, time: 1, count: 0 };
+  }
+
+  let size = 0;
+  let time = 0;
+  for (const record of recent) {
+    size += record.newSize / (record.predictedSize ?? record.newSize);
+    time += record.duration / (record.predictedSeconds ?? record.duration);
+  }
+  return { size: size / recent.length, time: time / recent.length, count: recent.length };
+}
+
+/**
+ * Get a file's predicted output size: from sample encodes (corrected by past
+ * error) when available, otherwise from its target bitrate
+ */
+export function getPredictedSize(
+  file: MediaFile,
+  config: Config,
+  correction?: PredictionCorrection,
+): number | null {
+  if (file.prediction) {
+    return Math.round(file.prediction.size * (correction?.size ?? 1));
+  }
+  return predictOutputSize(file, file.targetBitrate ?? selectTargetBitrate(file, config));
+}
+
+/**
+ * Predict a file from sample encodes; returns a skip reason when the predicted
+ * saving is below the configured thresholds, or null to transcode it
+ * Failed sample encodes are logged and leave the file to be transcoded
+ */
+export async function applyPrediction(
+  file: MediaFile,
+  config: Config,
+  correction: PredictionCorrection,
+): Promise<string | null> {
+  let prediction: SizePrediction | null;
+  try {
+    prediction = await predictTranscode(file, config);
+  } catch (error) {
+    logger.warn(`Size prediction failed: ${file.path}`, error);
+    return null;
+  }
+  if (!prediction) {
+    return null;
+  }
+
+  file.prediction = prediction;
+  const predicted = Math.round(prediction.size * correction.size);
+  logger.debug(
+    `Predicted ${file.path}: ${formatFileSize(file.size)} -> ${formatFileSize(predicted)} in ${
+      formatDuration(prediction.encodeSeconds * correction.time)
+    }`,
+  );
+
+  const shortfall = describeSmallSaving(file.size, predicted, config);
+  return shortfall ? `Predicted saving too small (sample encodes): ${shortfall}` : null;
+}
@@ -17,6 +17,7 @@ export {
   Semaphore,
   runWithConcurrency,
   checkCommand,
+  getProcessRegistry,
 } from '../shared/process.ts';
 
 /**
@@ -0,0 +1,122 @@
+/**
+ * Progress module for danger-transcode
+ * Parses FFmpeg `-progress` output into percent-complete and ETA figures
+ */
+
+import type { TranscodeProgress } from './types.ts';
+
+/**
+ * Parse an FFmpeg timestamp (HH:MM:SS.micro) into seconds
+ */
+function parseTimestamp(value: string): number | undefined {
+  const match = value.match(/^(\d+):(\d{2}):(\d{2}(?:\.\d+)?)$/);
+  if (!match) return undefined;
+  return parseInt(match[1], 10) * 3600 + parseInt(match[2], 10) * 60 + parseFloat(match[3]);
+}
+
+/**
+ * Parse a numeric progress value, treating "N/A" and garbage as undefined
+ */
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Build a progress snapshot from one block of `-progress` key/value pairs
+ */
+export function buildProgressSnapshot(
+  values: Map<string, string>,
+  durationSeconds: number,
+): TranscodeProgress {
+  // out_time_us is the most precise; out_time_ms is also microseconds despite its name
+  const outTimeUs = parseNumber(values.get('out_time_us')) ?? parseNumber(values.get('out_time_ms'));
+  let outTimeSeconds = outTimeUs !== undefined ? outTimeUs / 1_000_000 : undefined;
+  if (outTimeSeconds === undefined && values.has('out_time')) {
+    outTimeSeconds = parseTimestamp(values.get('out_time')!);
+  }
+  outTimeSeconds = Math.max(0, outTimeSeconds ?? 0);
+
+  const speed = parseNumber(values.get('speed')?.replace(/x$/, ''));
+  const done = values.get('progress') === 'end';
+
+  let percent = 0;
+  if (done) {
+    percent = 100;
+  } else if (durationSeconds > 0) {
+    percent = Math.min(100, (outTimeSeconds / durationSeconds) * 100);
+  }
+
+  let etaSeconds: number | undefined;
+  if (done) {
+    etaSeconds = 0;
+  } else if (durationSeconds > 0 && speed && speed > 0) {
+    etaSeconds = Math.max(0, durationSeconds - outTimeSeconds) / speed;
+  }
+
+  return {
+    frame: parseNumber(values.get('frame')) ?? 0,
+    fps: parseNumber(values.get('fps')) ?? 0,
+    outTimeSeconds,
+    speed: speed ?? 0,
+    totalSize: parseNumber(values.get('total_size')),
+    percent,
+    etaSeconds,
+    done,
+  };
+}
+
+/**
+ * Incremental parser for FFmpeg `-progress` output
+ * FFmpeg writes key=value lines and terminates each block with `progress=continue|end`
+ */
+export class FFmpegProgressParser {
+  private buffer = '';
+  private values = new Map<string, string>();
+
+  constructor(
+    private durationSeconds: number,
+    private onProgress: (progress: TranscodeProgress) => void,
+  ) {}
+
+  /** Feed a chunk of output text; emits a snapshot for every complete block */
+  push(chunk: string): void {
+    this.buffer += chunk;
+
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline).trim();
+      this.buffer = this.buffer.slice(newline + 1);
+      this.handleLine(line);
+    }
+  }
+
+  private handleLine(line: string): void {
+    const separator = line.indexOf('=');
+    if (separator <= 0) return;
+
+    const key = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim();
+    this.values.set(key, value);
+
+    if (key === 'progress') {
+      this.onProgress(buildProgressSnapshot(this.values, this.durationSeconds));
+      this.values = new Map();
+    }
+  }
+}
+
+/**
+ * Consume an FFmpeg progress stream until it closes
+ */
+export async function readProgressStream(
+  stream: ReadableStream<Uint8Array>,
+  durationSeconds: number,
+  onProgress: (progress: TranscodeProgress) => void,
+): Promise<void> {
+  const parser = new FFmpegProgressParser(durationSeconds, onProgress);
+  for await (const chunk of stream.pipeThrough(new TextDecoderStream())) {
+    parser.push(chunk);
+  }
+}
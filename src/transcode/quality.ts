@@ -0,0 +1,223 @@
+/**
+ * Quality module for danger-transcode
+ * Calibrates each file's bitrate by encoding short samples at candidate
+ * bitrates and scoring them against the source with VMAF or SSIM
+ */
+
+import { ensureDir } from '@std/fs';
+import type { CalibrationRecord, Config, MediaFile, TranscodeDatabase } from './types.ts';
+import { getLogger } from './logger.ts';
+import { formatBitrate } from './ffprobe.ts';
+import { selectTargetBitrate } from './bitrate.ts';
+import { probeEncoderCapabilities } from './encoders.ts';
+import { selectMainVideoStream } from './streams.ts';
+import { getEncodeSettings } from './transcoder.ts';
+import { encodeSample, getSamplePath, getSampleStarts, removeSample } from './samples.ts';
+import { addCalibrationRecord, getCalibrationRecord } from './database.ts';
+import { getProcessRegistry } from '../shared/process.ts';
+
+const logger = getLogger().child('quality');
+
+/** FFmpeg filter computing each metric */
+const METRIC_FILTERS = {
+  vmaf: 'libvmaf',
+  ssim: 'ssim',
+} as const;
+
+/** Score lines printed by the metric filters at the end of a run */
+const METRIC_PATTERNS = {
+  vmaf: /VMAF score:\s*([\d.]+)/,
+  ssim: /SSIM .*All:([\d.]+)/,
+} as const;
+
+/**
+ * Check that FFmpeg has the configured metric filter; returns the reason it can't be used, or null
+ */
+export async function checkQualityMetric(config: Config): Promise<string | null> {
+  const filter = METRIC_FILTERS[config.quality.metric];
+  const capabilities = await probeEncoderCapabilities(config.ffmpegPath);
+  return capabilities.filters.has(filter) ? null : `filter ${filter} not available`;
+}
+
+/**
+ * Get a stored calibration that still applies to a file
+ * Calibrations for a different source size, metric or target are ignored
+ */
+export function getValidCalibration(
+  db: TranscodeDatabase,
+  file: MediaFile,
+  config: Config,
+): CalibrationRecord | null {
+  const record = getCalibrationRecord(db, file.path);
+  if (
+    !record ||
+    record.sourceSize !== file.size ||
+    record.metric !== config.quality.metric ||
+    record.target !== config.quality.targets[file.type]
+  ) {
+    return null;
+  }
+  return record;
+}
+
+/**
+ * Score an encoded sample against the same span of the source, scaled to the target size
+ */
+async function scoreSample(
+  file: MediaFile,
+  config: Config,
+  start: number,
+  samplePath: string,
+): Promise<number> {
+  const { metric, sampleSeconds } = config.quality;
+  const { settings } = getEncodeSettings(file, config);
+  const mainVideo = selectMainVideoStream(file.streams ?? []);
+  const pixelFormat = settings.tenBit ? 'yuv420p10le' : 'yuv420p';
+
+  const reference = `1:${mainVideo ? mainVideo.index : 'v:0'}`;
+  const graph = [
+    `[0:v:0]setpts=PTS-STARTPTS,format=${pixelFormat}[dist]`,
+    `[${reference}]scale=${settings.targetWidth}:${settings.targetHeight}:flags=bicubic,` +
+    `setpts=PTS-STARTPTS,format=${pixelFormat}[ref]`,
+    `[dist][ref]${METRIC_FILTERS[metric]}`,
+  ].join(';');
+
+  const command = new Deno.Command(config.ffmpegPath, {
+    args: [
+      '-hide_banner',
+      '-nostats',
+      '-i',
+      samplePath,
+      '-ss',
+      start.toFixed(2),
+      '-t',
+      String(sampleSeconds),
+      '-i',
+      file.path,
+      '-lavfi',
+      graph,
+      '-f',
+      'null',
+      '-',
+    ],
+    stdin: 'null',
+    stdout: 'null',
+    stderr: 'piped',
+  });
+
+  const { code, stderr } = await getProcessRegistry().output(command, file.path, 'sample', file.path);
+  const output = new TextDecoder().decode(stderr);
+  const match = output.match(METRIC_PATTERNS[metric]);
+  if (code !== 0 || !match) {
+    const lastLine = output.trim().split('\n').pop() || `exit code ${code}`;
+    throw new Error(`Scoring sample at ${start.toFixed(0)}s failed: ${lastLine}`);
+  }
+  return parseFloat(match[1]);
+}
+
+/**
+ * Find the lowest candidate bitrate whose mean sample score meets the target
+ * Returns null for files calibration doesn't apply to
+ */
+export async function calibrateFile(
+  file: MediaFile,
+  config: Config,
+): Promise<CalibrationRecord | null> {
+  const { metric, samples, sampleSeconds, bitrateSteps } = config.quality;
+  const { backend, settings } = getEncodeSettings(file, config);
+
+  // Software backends encode at constant quality (CRF) and ignore the bitrate
+  if (!backend.hardware) {
+    logger.debug(`Skipping calibration for ${backend.name}: constant quality encoder`);
+    return null;
+  }
+  // Scores against the HDR source mean nothing after tone-mapping
+  if (settings.hdr === 'tonemap') {
+    logger.debug(`Skipping calibration for tone-mapped file: ${file.path}`);
+    return null;
+  }
+  if (!file.duration || file.duration < sampleSeconds) {
+    logger.debug(`Skipping calibration for short file: ${file.path}`);
+    return null;
+  }
+
+  await ensureDir(config.tempDir);
+  const target = config.quality.targets[file.type];
+  const baseBitrate = file.targetBitrate ?? selectTargetBitrate(file, config);
+  const starts = getSampleStarts(file.duration, samples, sampleSeconds);
+  const steps = [...new Set(bitrateSteps)].sort((a, b) => a - b);
+
+  logger.info(`Calibrating ${file.path} (${metric} target ${target})`);
+
+  let bitrate = baseBitrate;
+  let score = 0;
+  for (const step of steps) {
+    bitrate = Math.round(baseBitrate * step);
+    const candidate = `${Math.round(bitrate / 1000)}k`;
+
+    let total = 0;
+    for (const [i, start] of starts.entries()) {
+      const samplePath = getSamplePath(config, file, i);
+      try {
+        await encodeSample(file, config, start, sampleSeconds, samplePath, candidate);
+        total += await scoreSample(file, config, start, samplePath);
+      } finally {
+        await removeSample(samplePath);
+      }
+    }
+    score = total / starts.length;
+
+    logger.debug(`  ${formatBitrate(bitrate)}: ${metric} ${score.toFixed(3)}`);
+    if (score >= target) {
+      break;
+    }
+  }
+
+  const metTarget = score >= target;
+  logger.info(
+    `  Calibrated to ${formatBitrate(bitrate)} (${metric} ${score.toFixed(3)}` +
+      (metTarget ? ')' : `, below target ${target})`),
+  );
+
+  return {
+    calibratedAt: new Date().toISOString(),
+    sourceSize: file.size,
+    metric,
+    target,
+    bitrate,
+    score,
+    metTarget,
+  };
+}
+
+/**
+ * Set a file's target bitrate from its calibration, calibrating it first if needed
+ * Failed calibrations are logged and leave the target bitrate as it was
+ */
+export async function applyQualityCalibration(
+  file: MediaFile,
+  config: Config,
+  db: TranscodeDatabase,
+): Promise<void> {
+  if (!config.quality.enabled) {
+    return;
+  }
+
+  const stored = getValidCalibration(db, file, config);
+  if (stored) {
+    logger.debug(`Using stored calibration for ${file.path}: ${formatBitrate(stored.bitrate)}`);
+    file.targetBitrate = stored.bitrate;
+    return;
+  }
+
+  try {
+    const record = await calibrateFile(file, config);
+    if (record) {
+      addCalibrationRecord(db, file.path, record);
+      file.targetBitrate = record.bitrate;
+    }
+  } catch (error) {
+    if (getProcessRegistry().isShuttingDown) return;
+    logger.warn(`Calibration failed, using the default bitrate: ${file.path}`, error);
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Quarantine module for danger-transcode
+ * Keeps replaced originals for a while so a bad encode can be undone
+ */
+
+import { basename, join } from '@std/path';
+import { ensureDir } from '@std/fs';
+import type { Config, TranscodeDatabase, TranscodeRecord } from './types.ts';
+import { moveFile, pathExists } from '../shared/files.ts';
+import { getRecordPath, relinkRecord } from './database.ts';
+import { computeFingerprint } from './fingerprint.ts';
+import { renameSidecars } from './container.ts';
+import { formatBytes, parseBytes } from '../shared/format.ts';
+import { getLogger } from './logger.ts';
+
+const logger = getLogger().child('quarantine');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Result of a quarantine prune */
+export interface PruneResult {
+  removed: number;
+  freedBytes: number;
+}
+
+/** Filter for selecting records to restore */
+export interface RestoreFilter {
+  /** Restore the record for this exact path */
+  path?: string;
+  /** Restore every record quarantined at or after this date */
+  since?: Date;
+}
+
+/**
+ * Build a unique quarantine path for an original file
+ */
+function getQuarantinePath(config: Config, originalPath: string): string {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return join(config.quarantine.directory, `${stamp}_${basename(originalPath)}`);
+}
+
+/**
+ * Move a replaced original into quarantine
+ * Returns the quarantine path
+ */
+export async function quarantineFile(
+  config: Config,
+  filePath: string,
+  originalPath: string,
+): Promise<string> {
+  await ensureDir(config.quarantine.directory);
+
+  const quarantinePath = getQuarantinePath(config, originalPath);
+  await moveFile(filePath, quarantinePath);
+
+  logger.debug(`Quarantined original: ${originalPath} -> ${quarantinePath}`);
+  return quarantinePath;
+}
+
+/**
+ * Get records whose originals are still held in quarantine, oldest first
+ */
+export function getQuarantinedRecords(db: TranscodeDatabase): TranscodeRecord[] {
+  return Object.values(db.records)
+    .filter((record) => record.quarantinePath && !record.reverted)
+    .sort((a, b) => (a.quarantinedAt ?? a.transcodedAt).localeCompare(b.quarantinedAt ?? b.transcodedAt));
+}
+
+/**
+ * Find quarantined records matching a restore filter
+ */
+export function findRestorableRecords(
+  db: TranscodeDatabase,
+  filter: RestoreFilter,
+): TranscodeRecord[] {
+  return getQuarantinedRecords(db).filter((record) => {
+    if (filter.path && record.originalPath !== filter.path && record.outputPath !== filter.path) {
+      return false;
+    }
+    if (filter.since) {
+      const quarantinedAt = new Date(record.quarantinedAt ?? record.transcodedAt);
+      if (quarantinedAt < filter.since) {
+        return false;
+      }
+    }
+    return true;
+  });
+}
+
+/**
+ * Put a quarantined original back in place of its transcoded version
+ * Marks the record as reverted so the file is not transcoded again; a record
+ * keyed by a renamed output moves back to the original path
+ */
+export async function restoreFromQuarantine(
+  config: Config,
+  db: TranscodeDatabase,
+  record: TranscodeRecord,
+): Promise<void> {
+  const quarantinePath = record.quarantinePath;
+  if (!quarantinePath) {
+    throw new Error(`No quarantined original for: ${record.originalPath}`);
+  }
+  if (!await pathExists(quarantinePath)) {
+    throw new Error(`Quarantined original is missing: ${quarantinePath}`);
+  }
+
+  if (config.dryRun) {
+    logger.info(`Dry run - would restore ${record.originalPath} from ${quarantinePath}`);
+    return;
+  }
+
+  // Keep the transcoded file aside until the original is safely back
+  const transcodedPath = getRecordPath(record);
+  const transcodedAside = transcodedPath + '.reverting';
+  const hasTranscoded = await pathExists(transcodedPath);
+  if (hasTranscoded) {
+    await Deno.rename(transcodedPath, transcodedAside);
+  }
+
+  try {
+    await moveFile(quarantinePath, record.originalPath);
+  } catch (error) {
+    if (hasTranscoded) {
+      await Deno.rename(transcodedAside, transcodedPath);
+    }
+    throw error;
+  }
+
+  if (hasTranscoded) {
+    await Deno.remove(transcodedAside);
+  }
+
+  if (record.outputPath) {
+    await renameSidecars(record.outputPath, record.originalPath);
+  }
+
+  // The restored original is different content; key the record by it from now on
+  relinkRecord(db, record, record.originalPath, await computeFingerprint(record.originalPath));
+  delete record.outputPath;
+
+  record.reverted = true;
+  record.revertedAt = new Date().toISOString();
+  delete record.quarantinePath;
+
+  logger.info(`Restored original: ${record.originalPath}`);
+}
+
+/**
+ * Expire quarantined originals past the retention period or over the size budget
+ */
+export async function pruneQuarantine(
+  config: Config,
+  db: TranscodeDatabase,
+): Promise<PruneResult> {
+  const result: PruneResult = { removed: 0, freedBytes: 0 };
+  const records = getQuarantinedRecords(db);
+  if (records.length === 0) {
+    return result;
+  }
+
+  const cutoff = Date.now() - config.quarantine.retentionDays * DAY_MS;
+  const maxBytes = config.quarantine.maxSize ? parseBytes(config.quarantine.maxSize) : Infinity;
+
+  // Resolve sizes up front; records whose file vanished are simply unlinked
+  const held: { record: TranscodeRecord; size: number }[] = [];
+  for (const record of records) {
+    try {
+      const stat = await Deno.stat(record.quarantinePath!);
+      held.push({ record, size: stat.size });
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+      logger.warn(`Quarantined original missing, forgetting it: ${record.quarantinePath}`);
+      delete record.quarantinePath;
+    }
+  }
+
+  let totalBytes = held.reduce((sum, entry) => sum + entry.size, 0);
+
+  for (const { record, size } of held) {
+    const quarantinedAt = new Date(record.quarantinedAt ?? record.transcodedAt).getTime();
+    const expired = quarantinedAt < cutoff;
+    const overBudget = totalBytes > maxBytes;
+    if (!expired && !overBudget) {
+      continue;
+    }
+
+    if (config.dryRun) {
+      logger.info(`Dry run - would expire quarantined original: ${record.quarantinePath}`);
+    } else {
+      await Deno.remove(record.quarantinePath!);
+      delete record.quarantinePath;
+    }
+
+    totalBytes -= size;
+    result.removed++;
+    result.freedBytes += size;
+  }
+
+  if (result.removed > 0) {
+    logger.info(
+      `Pruned ${result.removed} quarantined originals (${formatBytes(result.freedBytes)} freed)`,
+    );
+  }
+
+  return result;
+}
@@ -0,0 +1,254 @@
+/**
+ * Job queue module for danger-transcode
+ * Persisted queue of transcode jobs, so queued and interrupted files survive
+ * a restart instead of waiting for the next full scan
+ */
+
+import { dirname } from '@std/path';
+import { ensureDir } from '@std/fs';
+import type { Config, MediaFile, TranscodeDatabase, TranscodeJob } from './types.ts';
+import { pathExists, writeTextFileAtomic } from '../shared/files.ts';
+import { getFileErrors, isFileReverted, isFileTranscoded } from './database.ts';
+import { MAX_OVERTAKES } from '../shared/process.ts';
+import { getHdrSkipReason } from './hdr.ts';
+import { getLogger } from './logger.ts';
+
+const logger = getLogger().child('queue');
+
+/** Finished jobs kept in the queue file as recent history */
+const FINISHED_JOBS_KEPT = 50;
+
+/** Jobs in queue order */
+export interface JobQueue {
+  jobs: TranscodeJob[];
+}
+
+/** A job as stored on disk, with dates as ISO strings */
+type StoredJob = Omit<TranscodeJob, 'startTime' | 'endTime'> & {
+  startTime?: string;
+  endTime?: string;
+};
+
+/**
+ * Check whether a job is waiting or running
+ */
+export function isActiveJob(job: TranscodeJob): boolean {
+  return job.status === 'pending' || job.status === 'processing';
+}
+
+/**
+ * Load the job queue
+ * Jobs left processing by a crash or reboot go back to pending
+ */
+export async function loadQueue(config: Config): Promise<JobQueue> {
+  let stored: StoredJob[];
+  try {
+    stored = JSON.parse(await Deno.readTextFile(config.queuePath)) as StoredJob[];
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return { jobs: [] };
+    }
+    throw error;
+  }
+
+  const jobs = stored.map((job): TranscodeJob => ({
+    ...job,
+    startTime: job.startTime ? new Date(job.startTime) : undefined,
+    endTime: job.endTime ? new Date(job.endTime) : undefined,
+  }));
+
+  for (const job of jobs) {
+    if (job.status === 'processing' || job.status === 'interrupted') {
+      logger.info(`Requeueing interrupted job: ${job.file.path}`);
+      job.status = 'pending';
+      delete job.progress;
+    }
+  }
+
+  return { jobs };
+}
+
+/**
+ * Save the job queue, trimming old finished jobs
+ */
+export async function saveQueue(config: Config, queue: JobQueue): Promise<void> {
+  const finished = queue.jobs.filter((job) => !isActiveJob(job));
+  const dropped = new Set(finished.slice(0, Math.max(0, finished.length - FINISHED_JOBS_KEPT)));
+  queue.jobs = queue.jobs.filter((job) => !dropped.has(job));
+
+  await ensureDir(dirname(config.queuePath));
+  await writeTextFileAtomic(config.queuePath, JSON.stringify(queue.jobs, null, 2));
+}
+
+/**
+ * Get the waiting or running job for a path
+ */
+export function findActiveJob(queue: JobQueue, path: string): TranscodeJob | null {
+  return queue.jobs.find((job) => isActiveJob(job) && job.file.path === path) ?? null;
+}
+
+/**
+ * Get the waiting jobs in queue order
+ */
+export function getPendingJobs(queue: JobQueue): TranscodeJob[] {
+  return queue.jobs.filter((job) => job.status === 'pending');
+}
+
+/**
+ * Add a file to the queue, at the back or the front
+ * Returns the new job, or null when the file is already waiting or running
+ */
+export function enqueueJob(queue: JobQueue, file: MediaFile, front = false): TranscodeJob | null {
+  if (findActiveJob(queue, file.path)) {
+    return null;
+  }
+
+  const job: TranscodeJob = { file, status: 'pending' };
+  if (front) {
+    const firstPending = queue.jobs.findIndex((j) => j.status === 'pending');
+    queue.jobs.splice(firstPending === -1 ? queue.jobs.length : firstPending, 0, job);
+  } else {
+    queue.jobs.push(job);
+  }
+  return job;
+}
+
+/**
+ * Queue the files a scan found, in their order, behind manually added jobs
+ * Waiting jobs the scan no longer reports are dropped; ones it found again get
+ * the fresh analysis
+ */
+export function mergeScanIntoQueue(queue: JobQueue, files: MediaFile[]): void {
+  const found = new Map(files.map((file) => [file.path, file]));
+  queue.jobs = queue.jobs.filter((job) =>
+    job.status !== 'pending' || job.manual || found.has(job.file.path)
+  );
+
+  for (const file of files) {
+    const queued = findActiveJob(queue, file.path);
+    if (!queued) {
+      enqueueJob(queue, file);
+    } else if (queued.status === 'pending' && !queued.manual) {
+      // Scan order replaces the order of the previous run
+      queue.jobs.splice(queue.jobs.indexOf(queued), 1);
+      queue.jobs.push({ ...queued, file });
+    }
+  }
+}
+
+/**
+ * Take the next pending job that can start and mark it as processing
+ * Jobs that can't start yet may be overtaken by later ones up to
+ * MAX_OVERTAKES times; after that they hold back the jobs behind them
+ */
+export function takeNextJob(
+  queue: JobQueue,
+  canStart: (job: TranscodeJob) => boolean = () => true,
+): TranscodeJob | null {
+  const skipped: TranscodeJob[] = [];
+  for (const job of queue.jobs) {
+    if (job.status !== 'pending') continue;
+
+    if (canStart(job)) {
+      for (const waiting of skipped) {
+        waiting.overtaken = (waiting.overtaken ?? 0) + 1;
+      }
+      startJob(job);
+      return job;
+    }
+    if ((job.overtaken ?? 0) >= MAX_OVERTAKES) {
+      return null;
+    }
+    skipped.push(job);
+  }
+  return null;
+}
+
+/**
+ * Mark a job as processing
+ */
+export function startJob(job: TranscodeJob): void {
+  job.status = 'processing';
+  job.startTime = new Date();
+}
+
+/**
+ * Record how a job ended
+ * Interrupted jobs stay in the queue and are picked up again on the next load
+ */
+export function finishJob(
+  job: TranscodeJob,
+  status: Exclude<TranscodeJob['status'], 'pending' | 'processing'>,
+  error?: string,
+): void {
+  job.status = status;
+  job.endTime = new Date();
+  if (error) {
+    job.error = error;
+  }
+}
+
+/**
+ * Remove the waiting job for a path
+ * Returns false when no job for it is waiting
+ */
+export function removeJob(queue: JobQueue, path: string): boolean {
+  const job = findActiveJob(queue, path);
+  if (!job || job.status !== 'pending') {
+    return false;
+  }
+  queue.jobs.splice(queue.jobs.indexOf(job), 1);
+  return true;
+}
+
+/**
+ * Move the waiting job for a path to a position among the waiting jobs (1 = next)
+ * Returns false when no job for it is waiting
+ */
+export function moveJob(queue: JobQueue, path: string, position: number): boolean {
+  const job = findActiveJob(queue, path);
+  if (!job || job.status !== 'pending') {
+    return false;
+  }
+  queue.jobs.splice(queue.jobs.indexOf(job), 1);
+
+  const pending = getPendingJobs(queue);
+  const target = Math.min(Math.max(position, 1), pending.length + 1);
+  const index = target > pending.length ? queue.jobs.length : queue.jobs.indexOf(pending[target - 1]);
+  queue.jobs.splice(index, 0, job);
+  return true;
+}
+
+/**
+ * Check whether a queued job is still worth running; the file may have been
+ * removed or handled since it was queued
+ * Returns the reason to drop it, or null to run it
+ */
+export async function getStaleJobReason(
+  job: TranscodeJob,
+  db: TranscodeDatabase,
+  config: Config,
+): Promise<string | null> {
+  const path = job.file.path;
+  if (!await pathExists(path)) {
+    return 'File no longer exists';
+  }
+  if (isFileTranscoded(db, path)) {
+    return 'Already transcoded';
+  }
+  if (isFileReverted(db, path)) {
+    return 'Original restored from quarantine';
+  }
+  if ((getFileErrors(db, path)?.attempts ?? 0) >= 3) {
+    return 'Too many errors';
+  }
+  // The HDR policy may have changed since the file was queued
+  return getHdrSkipReason(job.file, config);
+}
+
+/**
+ * Count the jobs still waiting
+ */
+export function countPendingJobs(queue: JobQueue): number {
+  return queue.jobs.filter((job) => job.status === 'pending').length;
+}
@@ -0,0 +1,90 @@
+/**
+ * Sample encode module for danger-transcode
+ * Encodes short clips of a file's main video stream with the real encoder
+ * settings, for quality calibration and size prediction
+ */
+
+import { basename, join } from '@std/path';
+import type { Config, MediaFile } from './types.ts';
+import { selectMainVideoStream } from './streams.ts';
+import { getEncodeSettings } from './transcoder.ts';
+import { getProcessRegistry } from '../shared/process.ts';
+
+/**
+ * Get the start times of evenly spaced samples, never at the very beginning or end
+ */
+export function getSampleStarts(duration: number, samples: number, sampleSeconds: number): number[] {
+  const starts: number[] = [];
+  for (let i = 0; i < samples; i++) {
+    const start = (duration * (i + 1)) / (samples + 1);
+    starts.push(Math.max(0, Math.min(start, duration - sampleSeconds)));
+  }
+  return starts;
+}
+
+/**
+ * Get the temp path of a sample; the `.transcoding.` marker lets startup recovery sweep it
+ */
+export function getSamplePath(config: Config, file: MediaFile, index: number): string {
+  const name = basename(file.path).replace(/\.[^.]+$/, '');
+  return join(config.tempDir, `${name}.transcoding.sample${index}.mkv`);
+}
+
+/**
+ * Encode one sample of the main video stream, at `bitrate` or the file's target bitrate
+ */
+export async function encodeSample(
+  file: MediaFile,
+  config: Config,
+  start: number,
+  seconds: number,
+  samplePath: string,
+  bitrate?: string,
+): Promise<void> {
+  const { backend, settings } = getEncodeSettings(file, config, 'default', bitrate);
+  const mainVideo = selectMainVideoStream(file.streams ?? []);
+
+  const command = new Deno.Command(config.ffmpegPath, {
+    args: [
+      '-v',
+      'error',
+      ...backend.inputArgs(settings, config),
+      '-ss',
+      start.toFixed(2),
+      '-t',
+      String(seconds),
+      '-i',
+      file.path,
+      '-map',
+      mainVideo ? `0:${mainVideo.index}` : '0:v:0',
+      ...backend.videoArgs(settings, config),
+      '-an',
+      '-sn',
+      '-dn',
+      '-y',
+      samplePath,
+    ],
+    stdin: 'null',
+    stdout: 'null',
+    stderr: 'piped',
+  });
+
+  const registry = getProcessRegistry();
+  const child = registry.spawn(command, file.path, [samplePath], 'sample', file.path);
+  const { code, stderr } = await child.output();
+  if (code !== 0) {
+    const errorText = new TextDecoder().decode(stderr).trim() || `exit code ${code}`;
+    throw new Error(`Sample encode failed at ${start.toFixed(0)}s: ${errorText}`);
+  }
+}
+
+/**
+ * Remove a sample, ignoring a missing file
+ */
+export async function removeSample(samplePath: string): Promise<void> {
+  try {
+    await Deno.remove(samplePath);
+  } catch {
+    // Never written or already gone
+  }
+}
@@ -8,8 +8,27 @@
 import { walk } from '@std/fs';
 import { basename, dirname, extname } from '@std/path';
 import type { Config, MediaFile, MediaType, TranscodeDatabase } from './types.ts';
-import { isHEVC, probeMediaFile } from './ffprobe.ts';
-import { getFileErrors, isFileTranscoded } from './database.ts';
+import { isHEVC, parseFrameRate, probeMediaFile, type ProbeResult } from './ffprobe.ts';
+import { getHdrSkipReason } from './hdr.ts';
+import { getSavingsSkipReason, selectTargetBitrate } from './bitrate.ts';
+import {
+  applyPrediction,
+  getPredictionCorrection,
+  type PredictionCorrection,
+} from './prediction.ts';
+import { applyQualityCalibration } from './quality.ts';
+import { reconcileDatabase, type ReconcileResult } from './fingerprint.ts';
+import { getFileErrors, isFileReverted, isFileTranscoded } from './database.ts';
+import {
+  getCachedPrediction,
+  getCachedProbe,
+  loadProbeCache,
+  type ProbeCache,
+  saveProbeCache,
+  setCachedPrediction,
+  setCachedProbe,
+} from './cache.ts';
+import { runWithConcurrency } from '../shared/process.ts';
 import { getLogger } from './logger.ts';
 
 const logger = getLogger().child('scanner');
@@ -113,6 +132,8 @@ export function checkExclusions(filePath: string, config: Config): ExclusionChec
 export interface DiscoveredFile {
   path: string;
   size: number;
+  /** Modification time (ms since epoch) */
+  mtime: number;
 }
 
 /** Result of the discovery phase */
@@ -193,6 +214,7 @@ async function discoverDirectory(dirPath: string, config: Config): Promise<Direc
       files.push({
         path: entry.path,
         size: stat.size,
+        mtime: stat.mtime?.getTime() ?? 0,
       });
     } catch {
       // Skip files we can't stat
@@ -358,12 +380,24 @@ export interface AnalysisSummary {
 export function filterByDatabaseState(
   files: DiscoveredFile[],
   db: TranscodeDatabase,
-): { toAnalyze: DiscoveredFile[]; alreadyDone: string[]; tooManyErrors: string[] } {
+): {
+  toAnalyze: DiscoveredFile[];
+  alreadyDone: string[];
+  tooManyErrors: string[];
+  reverted: string[];
+} {
   const toAnalyze: DiscoveredFile[] = [];
   const alreadyDone: string[] = [];
   const tooManyErrors: string[] = [];
+  const reverted: string[] = [];
 
   for (const file of files) {
+    // Restored originals stay as they are until the record is removed
+    if (isFileReverted(db, file.path)) {
+      reverted.push(file.path);
+      continue;
+    }
+
     if (isFileTranscoded(db, file.path)) {
       alreadyDone.push(file.path);
       continue;
@@ -378,7 +412,7 @@ export function filterByDatabaseState(
     toAnalyze.push(file);
   }
 
-  return { toAnalyze, alreadyDone, tooManyErrors };
+  return { toAnalyze, alreadyDone, tooManyErrors, reverted };
 }
 
 /**
@@ -391,65 +425,7 @@ export async function analyzeFile(
 ): Promise<AnalysisResult> {
   try {
     const probe = await probeMediaFile(config, filePath);
-
-    if (!probe.video) {
-      return {
-        file: null,
-        skipped: true,
-        skipReason: 'No video stream',
-      };
-    }
-
-    const mediaType = classifyMediaType(filePath);
-    const isAlreadyHEVC = isHEVC(probe.video.codec_name);
-
-    // Calculate target resolution (null if no scaling needed)
-    const target = calculateTargetResolution(
-      probe.video.width,
-      probe.video.height,
-      mediaType,
-      config,
-    );
-    const needsScaling = target !== null;
-
-    // Determine if transcoding is needed:
-    // - Not HEVC → needs transcode (to convert to HEVC)
-    // - HEVC but too high resolution → needs transcode (to scale down)
-    // - HEVC at/below target resolution → skip (already optimal)
-    let needsTranscode = false;
-    let skipReason: string | undefined;
-
-    if (!isAlreadyHEVC) {
-      // Need to convert to HEVC
-      needsTranscode = true;
-    } else if (needsScaling) {
-      // Already HEVC but resolution too high - need to scale down
-      needsTranscode = true;
-    } else {
-      // Already HEVC and at/below target resolution - skip
-      needsTranscode = false;
-      skipReason = `Already HEVC at ${probe.video.height}p`;
-    }
-
-    const mediaFile: MediaFile = {
-      path: filePath,
-      type: mediaType,
-      codec: probe.video.codec_name,
-      width: probe.video.width,
-      height: probe.video.height,
-      size: probe.fileSize,
-      duration: probe.duration,
-      needsTranscode,
-      skipReason,
-      targetWidth: target?.width ?? probe.video.width,
-      targetHeight: target?.height ?? probe.video.height,
-    };
-
-    return {
-      file: mediaFile,
-      skipped: !needsTranscode,
-      skipReason,
-    };
+    return analyzeProbe(filePath, probe, config);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     logger.error(`Error probing file: ${filePath}`, errorMessage);
@@ -461,13 +437,174 @@ export async function analyzeFile(
   }
 }
 
+/**
+ * Decide from a file's probe whether it needs transcoding
+ */
+export function analyzeProbe(
+  filePath: string,
+  probe: ProbeResult,
+  config: Config,
+): AnalysisResult {
+  if (!probe.video) {
+    return {
+      file: null,
+      skipped: true,
+      skipReason: 'No video stream',
+    };
+  }
+
+  const mediaType = classifyMediaType(filePath);
+  const isAlreadyHEVC = isHEVC(probe.video.codec_name);
+
+  // Calculate target resolution (null if no scaling needed)
+  const target = calculateTargetResolution(
+    probe.video.width,
+    probe.video.height,
+    mediaType,
+    config,
+  );
+  const needsScaling = target !== null;
+
+  // Determine if transcoding is needed:
+  // - Not HEVC → needs transcode (to convert to HEVC)
+  // - HEVC but too high resolution → needs transcode (to scale down)
+  // - HEVC at/below target resolution → skip (already optimal)
+  let needsTranscode = false;
+  let skipReason: string | undefined;
+
+  if (!isAlreadyHEVC) {
+    // Need to convert to HEVC
+    needsTranscode = true;
+  } else if (needsScaling) {
+    // Already HEVC but resolution too high - need to scale down
+    needsTranscode = true;
+  } else {
+    // Already HEVC and at/below target resolution - skip
+    needsTranscode = false;
+    skipReason = `Already HEVC at ${probe.video.height}p`;
+  }
+
+  const mediaFile: MediaFile = {
+    path: filePath,
+    type: mediaType,
+    codec: probe.video.codec_name,
+    width: probe.video.width,
+    height: probe.video.height,
+    size: probe.fileSize,
+    duration: probe.duration,
+    bitrate: probe.video.bit_rate ? parseInt(probe.video.bit_rate, 10) : undefined,
+    frameRate: parseFrameRate(probe.video.r_frame_rate),
+    needsTranscode,
+    skipReason,
+    targetWidth: target?.width ?? probe.video.width,
+    targetHeight: target?.height ?? probe.video.height,
+    streams: probe.streams,
+    color: probe.color ?? undefined,
+  };
+
+  if (needsTranscode) {
+    mediaFile.targetBitrate = selectTargetBitrate(mediaFile, config);
+
+    // HDR sources the policy (or a missing base layer) says to leave alone, then
+    // files that would not shrink enough to be worth the encode; a calibrated
+    // bitrate is only known later, so checkEncodeSavings checks those
+    const lateSkipReason = getHdrSkipReason(mediaFile, config) ??
+      (config.quality.enabled ? null : getSavingsSkipReason(mediaFile, config));
+    if (lateSkipReason) {
+      mediaFile.needsTranscode = false;
+      mediaFile.skipReason = lateSkipReason;
+      return { file: mediaFile, skipped: true, skipReason: lateSkipReason };
+    }
+  }
+
+  return {
+    file: mediaFile,
+    skipped: !needsTranscode,
+    skipReason,
+  };
+}
+
+/**
+ * Check a file analysis wants transcoded against its real target bitrate:
+ * calibrates the bitrate, then drops files the calibrated or sample-predicted
+ * encode wouldn't shrink enough; predictions in the probe cache are reused
+ * Returns the skip reason, or null when the file is still to be transcoded
+ */
+export async function checkEncodeSavings(
+  file: MediaFile,
+  config: Config,
+  db: TranscodeDatabase,
+  correction: PredictionCorrection,
+  cache?: ProbeCache,
+): Promise<string | null> {
+  await applyQualityCalibration(file, config, db);
+
+  let skipReason = config.quality.enabled ? getSavingsSkipReason(file, config) : null;
+  if (!skipReason && config.prediction.enabled) {
+    const cached = cache ? getCachedPrediction(cache, file, config) : null;
+    if (cached) {
+      file.prediction = cached.prediction;
+      skipReason = cached.skipReason;
+    } else {
+      skipReason = await applyPrediction(file, config, correction);
+      // Failed sample encodes leave no prediction and are tried again next scan
+      if (cache && file.prediction) {
+        setCachedPrediction(cache, file, config, file.prediction, skipReason);
+      }
+    }
+  }
+  if (skipReason) {
+    file.needsTranscode = false;
+    file.skipReason = skipReason;
+  }
+  return skipReason;
+}
+
+/**
+ * Analyze a discovered file, reusing its cached probe (and skip decision)
+ * when the file hasn't changed since
+ */
+async function analyzeDiscoveredFile(
+  file: DiscoveredFile,
+  config: Config,
+  cache?: ProbeCache,
+): Promise<AnalysisResult> {
+  const cached = cache ? getCachedProbe(cache, file) : null;
+  if (cached?.skipReason) {
+    return { file: null, skipped: true, skipReason: cached.skipReason };
+  }
+
+  let probe = cached?.probe;
+  if (!probe) {
+    try {
+      probe = await probeMediaFile(config, file.path);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`Error probing file: ${file.path}`, errorMessage);
+      return { file: null, skipped: false, error: errorMessage };
+    }
+  }
+
+  const result = analyzeProbe(file.path, probe, config);
+  if (result.file) {
+    result.file.mtime = file.mtime;
+  }
+  const skipReason = result.skipped ? result.skipReason ?? 'Unknown' : null;
+  if (cache && (!cached || cached.skipReason !== skipReason)) {
+    setCachedProbe(cache, file, probe, skipReason);
+  }
+  return result;
+}
+
 /**
  * Analyze multiple files with progress callback
+ * Up to `probe.concurrency` files are probed at once; results keep the input order
  */
 export async function analyzeFiles(
   files: DiscoveredFile[],
   config: Config,
   onProgress?: (current: number, total: number, path: string) => void,
+  cache?: ProbeCache,
 ): Promise<AnalysisSummary> {
   const summary: AnalysisSummary = {
     totalAnalyzed: 0,
@@ -476,11 +613,15 @@ export async function analyzeFiles(
     errors: [],
   };
 
-  for (let i = 0; i < files.length; i++) {
-    const file = files[i];
-    onProgress?.(i + 1, files.length, file.path);
+  let completed = 0;
+  const results = await runWithConcurrency(files, config.probe.concurrency, async (file) => {
+    const result = await analyzeDiscoveredFile(file, config, cache);
+    onProgress?.(++completed, files.length, file.path);
+    return result;
+  });
 
-    const result = await analyzeFile(file.path, config);
+  for (const [i, result] of results.entries()) {
+    const file = files[i];
     summary.totalAnalyzed++;
 
     if (result.error) {
@@ -523,6 +664,8 @@ export interface ScanResult {
   skipped: { path: string; reason: string }[];
   excluded: { path: string; reason: string }[];
   errors: string[];
+  /** Database records relinked or invalidated by fingerprint */
+  reconciled: ReconcileResult;
 }
 
 /**
@@ -537,34 +680,86 @@ export async function scanMediaDirectories(
   logger.info('Phase 1: Discovering video files...');
   const discovery = await discoverMediaFiles(config);
 
+  // Follow renamed/moved files and drop records whose content was replaced
+  const reconciled = await reconcileDatabase(discovery.files, db);
+  if (reconciled.relinked.length > 0 || reconciled.invalidated.length > 0) {
+    logger.info(
+      `Database: ${reconciled.relinked.length} records relinked, ${reconciled.invalidated.length} invalidated`,
+    );
+  }
+
   // Filter by database state
-  const { toAnalyze, alreadyDone, tooManyErrors } = filterByDatabaseState(discovery.files, db);
+  const { toAnalyze, alreadyDone, tooManyErrors, reverted } = filterByDatabaseState(
+    discovery.files,
+    db,
+  );
 
   logger.info(
     `Found ${discovery.files.length} video files (${discovery.excluded.length} excluded)`,
   );
   logger.info(`  Already transcoded: ${alreadyDone.length}`);
   logger.info(`  Too many errors: ${tooManyErrors.length}`);
+  if (reverted.length > 0) {
+    logger.info(`  Restored originals: ${reverted.length}`);
+  }
   logger.info(`  To analyze: ${toAnalyze.length}`);
 
   // Phase 2: Analysis
   logger.info('Phase 2: Analyzing files...');
-  const analysis = await analyzeFiles(toAnalyze, config, (current, total, path) => {
-    logger.progress(current, total, `Analyzing: ${basename(path)}`);
-  });
+  const cache = await loadProbeCache(config);
+  const analysis = await analyzeFiles(
+    toAnalyze,
+    config,
+    (current, total, path) => {
+      logger.progress(current, total, `Analyzing: ${basename(path)}`);
+    },
+    cache,
+  );
   logger.progressEnd();
+  if (config.probe.cache) {
+    logger.info(`  Probe cache: ${cache.hits} reused, ${cache.misses} probed`);
+  }
+
+  // Phase 3: Calibration and sample encodes to drop files that won't shrink enough
+  let toTranscode = analysis.toTranscode;
+  if ((config.quality.enabled || config.prediction.enabled) && toTranscode.length > 0) {
+    logger.info('Phase 3: Checking encode savings...');
+    const correction = getPredictionCorrection(db);
+    toTranscode = [];
+    for (const [i, file] of analysis.toTranscode.entries()) {
+      logger.progress(i + 1, analysis.toTranscode.length, `Checking: ${basename(file.path)}`);
+      const skipReason = await checkEncodeSavings(file, config, db, correction, cache);
+      if (skipReason) {
+        analysis.skipped.push({ path: file.path, reason: skipReason });
+      } else {
+        toTranscode.push(file);
+      }
+    }
+    logger.progressEnd();
+  }
+
+  // Saved after Phase 3, which adds predictions
+  if (config.probe.cache) {
+    try {
+      await saveProbeCache(config, cache);
+    } catch (error) {
+      logger.warn('Failed to save probe cache', error);
+    }
+  }
 
   // Combine results
   const result: ScanResult = {
     totalFiles: discovery.files.length + discovery.excluded.length,
-    toTranscode: analysis.toTranscode,
+    toTranscode,
     skipped: [
       ...alreadyDone.map((path) => ({ path, reason: 'Already transcoded' })),
       ...tooManyErrors.map((path) => ({ path, reason: 'Too many errors' })),
+      ...reverted.map((path) => ({ path, reason: 'Original restored from quarantine' })),
       ...analysis.skipped,
     ],
     excluded: discovery.excluded,
     errors: analysis.errors.map((e) => e.path),
+    reconciled,
   };
 
   logger.info(
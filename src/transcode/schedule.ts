@@ -0,0 +1,134 @@
+/**
+ * Schedule module for danger-transcode
+ * Allowed time windows and per-run budgets that decide when a run stops
+ * starting new transcodes
+ */
+
+import type { ScheduleConfig, ScheduleWindow, TranscodeStats, Weekday } from './types.ts';
+import { formatBytes, formatDuration } from '../shared/format.ts';
+
+/** Weekdays in `Date.getDay()` order */
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/** Limits for a single run, from the CLI */
+export interface RunBudget {
+  maxRuntimeSeconds?: number;
+  maxFiles?: number;
+  maxBytesSaved?: number;
+}
+
+/**
+ * Parse "HH:MM" to minutes since midnight, or null when invalid
+ */
+function parseTimeOfDay(value: string): number | null {
+  const match = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+  const minutes = parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+  return parseInt(match[2], 10) < 60 && minutes <= 24 * 60 ? minutes : null;
+}
+
+/**
+ * Check whether a window starts on a weekday
+ */
+function startsOn(window: ScheduleWindow, day: Weekday): boolean {
+  return window.days.length === 0 || window.days.includes(day);
+}
+
+/**
+ * Validate schedule windows, returning error messages
+ */
+export function validateSchedule(schedule: ScheduleConfig): string[] {
+  const errors: string[] = [];
+  for (const [i, window] of schedule.windows.entries()) {
+    const invalidDays = (window.days ?? []).filter((day) => !WEEKDAYS.includes(day));
+    if (!Array.isArray(window.days) || invalidDays.length > 0) {
+      errors.push(`schedule.windows[${i}].days must only contain: ${WEEKDAYS.join(', ')}`);
+    }
+    const start = parseTimeOfDay(window.start);
+    const end = parseTimeOfDay(window.end);
+    if (start === null || end === null) {
+      errors.push(`schedule.windows[${i}].start and end must be times like "01:30"`);
+    } else if (start === end) {
+      errors.push(`schedule.windows[${i}] must not start and end at the same time`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Check whether transcodes may start at `date`
+ * Windows ending before they start run past midnight into the next day
+ */
+export function isWithinSchedule(schedule: ScheduleConfig, date = new Date()): boolean {
+  if (schedule.windows.length === 0) {
+    return true;
+  }
+
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const today = WEEKDAYS[date.getDay()];
+  const yesterday = WEEKDAYS[(date.getDay() + 6) % 7];
+
+  return schedule.windows.some((window) => {
+    const start = parseTimeOfDay(window.start) ?? 0;
+    const end = parseTimeOfDay(window.end) ?? 0;
+    if (start < end) {
+      return startsOn(window, today) && minutes >= start && minutes < end;
+    }
+    return (startsOn(window, today) && minutes >= start) ||
+      (startsOn(window, yesterday) && minutes < end);
+  });
+}
+
+/**
+ * Get the next time a window opens after `date`, or null without windows
+ */
+export function getNextWindowStart(schedule: ScheduleConfig, date = new Date()): Date | null {
+  let next: Date | null = null;
+  for (let offset = 0; offset <= 7; offset++) {
+    const day = new Date(date.getFullYear(), date.getMonth(), date.getDate() + offset);
+    for (const window of schedule.windows) {
+      if (!startsOn(window, WEEKDAYS[day.getDay()])) {
+        continue;
+      }
+      const start = parseTimeOfDay(window.start) ?? 0;
+      const candidate = new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, start);
+      if (candidate > date && (!next || candidate < next)) {
+        next = candidate;
+      }
+    }
+  }
+  return next;
+}
+
+/**
+ * Check whether a run should stop starting new transcodes
+ * Returns the reason, or null to carry on
+ */
+export function getStopReason(
+  schedule: ScheduleConfig,
+  budget: RunBudget,
+  stats: TranscodeStats,
+  startedAt: Date,
+  now = new Date(),
+): string | null {
+  if (!isWithinSchedule(schedule, now)) {
+    return 'Allowed time window ended';
+  }
+
+  const elapsedSeconds = (now.getTime() - startedAt.getTime()) / 1000;
+  if (budget.maxRuntimeSeconds !== undefined && elapsedSeconds >= budget.maxRuntimeSeconds) {
+    return `Runtime budget of ${formatDuration(budget.maxRuntimeSeconds)} reached`;
+  }
+  if (budget.maxFiles !== undefined && stats.started >= budget.maxFiles) {
+    return `File budget of ${budget.maxFiles} reached`;
+  }
+  if (
+    budget.maxBytesSaved !== undefined &&
+    stats.spaceSaved + stats.pendingSavings >= budget.maxBytesSaved
+  ) {
+    return `Savings budget of ${formatBytes(budget.maxBytesSaved)} reached`;
+  }
+  return null;
+}
@@ -0,0 +1,270 @@
+/**
+ * Database store module for danger-transcode
+ * Persists the database as a JSON snapshot plus an append-only change log:
+ * saves append only the entries that changed, and once the log grows it is
+ * folded back into the snapshot, which is replaced atomically
+ * Only one process may write a database; callers hold the process lock
+ */
+
+import { dirname } from '@std/path';
+import { ensureDir } from '@std/fs';
+import type { TranscodeDatabase } from './types.ts';
+import { writeTextFileAtomic } from '../shared/files.ts';
+import { getLogger } from './logger.ts';
+
+const logger = getLogger().child('store');
+
+/** Keyed tables of the database, written to the change log entry by entry */
+const DATABASE_TABLES = ['records', 'paths', 'errors', 'calibrations'] as const;
+type DatabaseTable = typeof DATABASE_TABLES[number];
+
+/** Change log entries kept before compacting, at the least */
+const COMPACT_MIN_ENTRIES = 5000;
+
+/** A change log line; an entry without a value was deleted */
+interface ChangeEntry {
+  table: DatabaseTable | 'meta';
+  key: string;
+  value?: unknown;
+}
+
+/** Outcome of replaying a change log */
+export interface ReplayResult {
+  replayed: number;
+  /** The log ends in a partial line */
+  torn: boolean;
+}
+
+/** What is on disk for a loaded database, so saves write only the differences */
+interface StoreState {
+  snapshotPath: string;
+  /** Serialized entries as last written, per table */
+  persisted: Record<DatabaseTable, Map<string, string>>;
+  /** Entries in the change log since the last compaction */
+  logEntries: number;
+  /** A failed append may have left a partial line behind */
+  torn: boolean;
+}
+
+const stores = new WeakMap<TranscodeDatabase, StoreState>();
+
+/**
+ * Get the change log path for a snapshot (e.g. database.json.changes)
+ */
+export function getChangeLogPath(snapshotPath: string): string {
+  return `${snapshotPath}.changes`;
+}
+
+/**
+ * Write all of `data` to an open file
+ */
+async function writeAll(file: Deno.FsFile, data: Uint8Array): Promise<void> {
+  let written = 0;
+  while (written < data.length) {
+    written += await file.write(data.subarray(written));
+  }
+}
+
+/**
+ * Read a snapshot, or null when there is none
+ */
+export async function readSnapshot(snapshotPath: string): Promise<TranscodeDatabase | null> {
+  try {
+    const content = await Deno.readTextFile(snapshotPath);
+    return JSON.parse(content) as TranscodeDatabase;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write a full JSON copy of a database, replacing `path` atomically
+ */
+export async function writeSnapshot(path: string, db: TranscodeDatabase): Promise<void> {
+  await ensureDir(dirname(path));
+  await writeTextFileAtomic(path, JSON.stringify(db, null, 2));
+}
+
+/**
+ * Apply a snapshot's change log to it
+ * Unreadable lines (a write torn by a crash) are skipped
+ */
+export async function replayChangeLog(
+  snapshotPath: string,
+  db: TranscodeDatabase,
+): Promise<ReplayResult> {
+  let content: string;
+  try {
+    content = await Deno.readTextFile(getChangeLogPath(snapshotPath));
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return { replayed: 0, torn: false };
+    }
+    throw error;
+  }
+
+  let replayed = 0;
+  let unreadable = 0;
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+
+    let entry: ChangeEntry;
+    try {
+      entry = JSON.parse(line) as ChangeEntry;
+    } catch {
+      unreadable++;
+      continue;
+    }
+
+    if (entry.table === 'meta') {
+      if (entry.key === 'lastRun' && typeof entry.value === 'string') {
+        db.lastRun = entry.value;
+      }
+    } else if (DATABASE_TABLES.includes(entry.table)) {
+      const table = db[entry.table] as Record<string, unknown>;
+      if (entry.value === undefined) {
+        delete table[entry.key];
+      } else {
+        table[entry.key] = entry.value;
+      }
+    } else {
+      unreadable++;
+      continue;
+    }
+    replayed++;
+  }
+
+  if (unreadable > 0) {
+    logger.warn(`Ignored ${unreadable} unreadable database change log lines`);
+  }
+  return { replayed, torn: content.length > 0 && !content.endsWith('\n') };
+}
+
+/**
+ * Remember a loaded database as what is on disk, so saves write only changes
+ */
+export function trackDatabase(
+  db: TranscodeDatabase,
+  snapshotPath: string,
+  replay: ReplayResult = { replayed: 0, torn: false },
+): void {
+  const persisted = {} as StoreState['persisted'];
+  for (const table of DATABASE_TABLES) {
+    const entries = Object.entries(db[table] as Record<string, unknown>);
+    persisted[table] = new Map(entries.map(([key, value]) => [key, JSON.stringify(value)]));
+  }
+  stores.set(db, { snapshotPath, persisted, logEntries: replay.replayed, torn: replay.torn });
+}
+
+/**
+ * Get the store state of a database, treating an untracked one as not yet written
+ */
+function getStoreState(db: TranscodeDatabase, snapshotPath: string): StoreState {
+  let state = stores.get(db);
+  if (!state || state.snapshotPath !== snapshotPath) {
+    state = {
+      snapshotPath,
+      persisted: {
+        records: new Map(),
+        paths: new Map(),
+        errors: new Map(),
+        calibrations: new Map(),
+      },
+      logEntries: 0,
+      torn: false,
+    };
+    stores.set(db, state);
+  }
+  return state;
+}
+
+/**
+ * Append every entry that changed since the last save to the change log
+ * Each entry is one line, flushed before returning; the log is compacted
+ * into the snapshot once it outgrows the database
+ * Returns the number of entries written
+ */
+export async function saveChanges(db: TranscodeDatabase, snapshotPath: string): Promise<number> {
+  const state = getStoreState(db, snapshotPath);
+
+  const changes: ChangeEntry[] = [];
+  const updates: [DatabaseTable, string, string | null][] = [];
+  for (const table of DATABASE_TABLES) {
+    const current = db[table] as Record<string, unknown>;
+    const persisted = state.persisted[table];
+
+    for (const [key, value] of Object.entries(current)) {
+      const serialized = JSON.stringify(value);
+      if (persisted.get(key) !== serialized) {
+        changes.push({ table, key, value });
+        updates.push([table, key, serialized]);
+      }
+    }
+    for (const key of persisted.keys()) {
+      if (!(key in current)) {
+        changes.push({ table, key });
+        updates.push([table, key, null]);
+      }
+    }
+  }
+
+  if (changes.length === 0) {
+    return 0;
+  }
+  changes.push({ table: 'meta', key: 'lastRun', value: db.lastRun });
+
+  await ensureDir(dirname(snapshotPath));
+  const lines = changes.map((entry) => JSON.stringify(entry)).join('\n') + '\n';
+  const data = new TextEncoder().encode(state.torn ? '\n' + lines : lines);
+
+  const file = await Deno.open(getChangeLogPath(snapshotPath), { append: true, create: true });
+  try {
+    await writeAll(file, data);
+    await file.syncData();
+    state.torn = false;
+  } catch (error) {
+    // Start the next append on a fresh line; the unwritten entries are retried with it
+    state.torn = true;
+    throw error;
+  } finally {
+    file.close();
+  }
+
+  for (const [table, key, serialized] of updates) {
+    if (serialized === null) {
+      state.persisted[table].delete(key);
+    } else {
+      state.persisted[table].set(key, serialized);
+    }
+  }
+  state.logEntries += changes.length;
+
+  const total = DATABASE_TABLES.reduce((sum, table) => sum + state.persisted[table].size, 0);
+  if (state.logEntries > Math.max(COMPACT_MIN_ENTRIES, total)) {
+    await compactDatabase(db, snapshotPath);
+  }
+
+  return changes.length;
+}
+
+/**
+ * Write the whole database to its snapshot and empty the change log
+ * A crash after the snapshot is replaced but before the log is removed is
+ * harmless: replaying the log over the new snapshot gives the same state
+ */
+export async function compactDatabase(db: TranscodeDatabase, snapshotPath: string): Promise<void> {
+  await writeSnapshot(snapshotPath, db);
+  try {
+    await Deno.remove(getChangeLogPath(snapshotPath));
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) {
+      throw error;
+    }
+  }
+
+  trackDatabase(db, snapshotPath);
+  logger.debug(`Compacted database into ${snapshotPath}`);
+}
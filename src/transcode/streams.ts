@@ -0,0 +1,372 @@
+/**
+ * Stream selection module for danger-transcode
+ * Decides which input streams end up in the output and how each is encoded
+ */
+
+import { extname } from '@std/path';
+import type {
+  AudioCodec,
+  AudioPolicy,
+  Config,
+  MediaFile,
+  OutputContainer,
+  StreamInfo,
+} from './types.ts';
+
+/** Lossless (and DTS) audio codecs worth converting; pcm_* is matched separately */
+const LOSSLESS_AUDIO_CODECS = new Set(['truehd', 'mlp', 'dts', 'flac', 'alac', 'wavpack', 'tta', 'ape']);
+
+/** FFmpeg encoder and channel limit per target codec */
+const AUDIO_ENCODERS: Record<AudioCodec, { encoder: string; maxChannels: number }> = {
+  aac: { encoder: 'aac', maxChannels: 8 },
+  opus: { encoder: 'libopus', maxChannels: 8 },
+  eac3: { encoder: 'eac3', maxChannels: 6 },
+};
+
+/** Image codecs used for cover art rather than real video */
+const IMAGE_CODECS = new Set(['mjpeg', 'png', 'bmp', 'gif', 'webp']);
+
+/** MIME types for cover art attachments */
+const IMAGE_MIMETYPES: Record<string, { mimetype: string; extension: string }> = {
+  mjpeg: { mimetype: 'image/jpeg', extension: 'jpg' },
+  png: { mimetype: 'image/png', extension: 'png' },
+  bmp: { mimetype: 'image/bmp', extension: 'bmp' },
+  gif: { mimetype: 'image/gif', extension: 'gif' },
+  webp: { mimetype: 'image/webp', extension: 'webp' },
+};
+
+/** Subtitle codecs each container can hold as-is */
+const CONTAINER_SUBTITLE_CODECS: Record<OutputContainer, Set<string>> = {
+  mkv: new Set(['subrip', 'ass', 'ssa', 'webvtt', 'hdmv_pgs_subtitle', 'dvd_subtitle', 'dvb_subtitle']),
+  mp4: new Set(['mov_text']),
+};
+
+/** Text subtitle codecs FFmpeg can convert between */
+const TEXT_SUBTITLE_CODECS = new Set([
+  'subrip',
+  'srt',
+  'ass',
+  'ssa',
+  'webvtt',
+  'mov_text',
+  'text',
+  'microdvd',
+  'subviewer',
+  'jacosub',
+  'realtext',
+  'sami',
+]);
+
+/** Encoder used when a text subtitle has to be converted for a container */
+const CONTAINER_TEXT_SUBTITLE_ENCODER: Record<OutputContainer, string> = {
+  mkv: 'srt',
+  mp4: 'mov_text',
+};
+
+/** What happens to one kept audio track */
+export interface AudioTrackPlan {
+  stream: StreamInfo;
+  action: 'copy' | 'convert';
+  /** Output channel count when converting, if it differs from the source */
+  channels?: number;
+}
+
+/** What happens to one kept subtitle track */
+export interface SubtitleTrackPlan {
+  stream: StreamInfo;
+  /** Encoder to convert with, or 'copy' */
+  codec: string;
+}
+
+/** Stream mapping for one transcode */
+export interface StreamPlan {
+  container: OutputContainer;
+  /** The stream that gets encoded */
+  video: StreamInfo;
+  /** Cover art, carried over as attached pictures */
+  coverArt: StreamInfo[];
+  /** Kept audio tracks in output order */
+  audio: AudioTrackPlan[];
+  /** Audio tracks left out by the policy */
+  droppedAudio: StreamInfo[];
+  /** Kept subtitle tracks in output order */
+  subtitles: SubtitleTrackPlan[];
+  /** Subtitle tracks the container can't hold */
+  droppedSubtitles: StreamInfo[];
+  /** Attachments (fonts etc.) to copy */
+  attachments: StreamInfo[];
+}
+
+/**
+ * Get the container written for an output path
+ */
+export function getOutputContainer(outputPath: string): OutputContainer {
+  const extension = extname(outputPath).toLowerCase();
+  return extension === '.mp4' || extension === '.m4v' || extension === '.mov' ? 'mp4' : 'mkv';
+}
+
+/**
+ * Check whether a video stream is a still image (cover art) rather than real video
+ */
+export function isCoverArt(stream: StreamInfo): boolean {
+  return stream.disposition.includes('attached_pic') || IMAGE_CODECS.has(stream.codecName);
+}
+
+/**
+ * Pick the real main video stream: the largest non-cover-art stream, preferring
+ * the default one on ties
+ */
+export function selectMainVideoStream(streams: StreamInfo[]): StreamInfo | null {
+  const candidates = streams.filter((s) => s.codecType === 'video' && !isCoverArt(s));
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const area = (s: StreamInfo) => (s.width ?? 0) * (s.height ?? 0);
+  const isDefault = (s: StreamInfo) => (s.disposition.includes('default') ? 1 : 0);
+  return [...candidates].sort((a, b) => area(b) - area(a) || isDefault(b) - isDefault(a))[0];
+}
+
+/**
+ * Decide how a subtitle track is carried into the container, or null to drop it
+ */
+export function planSubtitleTrack(
+  stream: StreamInfo,
+  container: OutputContainer,
+): SubtitleTrackPlan | null {
+  if (CONTAINER_SUBTITLE_CODECS[container].has(stream.codecName)) {
+    return { stream, codec: 'copy' };
+  }
+  if (TEXT_SUBTITLE_CODECS.has(stream.codecName)) {
+    return { stream, codec: CONTAINER_TEXT_SUBTITLE_ENCODER[container] };
+  }
+  // Bitmap subtitles can't be converted to text
+  return null;
+}
+
+/**
+ * Check whether an audio track is lossless or DTS (any DTS profile)
+ */
+export function isLosslessOrDts(stream: StreamInfo): boolean {
+  const codec = stream.codecName.toLowerCase();
+  return LOSSLESS_AUDIO_CODECS.has(codec) || codec.startsWith('pcm_');
+}
+
+/**
+ * Check whether an audio track is a commentary track
+ */
+export function isCommentary(stream: StreamInfo): boolean {
+  return stream.disposition.includes('comment') || /commentary/i.test(stream.title ?? '');
+}
+
+/**
+ * Guess the original language: the default audio track's, else the first track's
+ */
+export function getOriginalLanguage(audioStreams: StreamInfo[]): string | undefined {
+  const main = audioStreams.find((s) => s.disposition.includes('default')) ?? audioStreams[0];
+  return main?.language;
+}
+
+/**
+ * Pick the audio tracks to keep
+ * Never returns an empty list when the input has audio
+ */
+export function selectAudioTracks(audioStreams: StreamInfo[], policy: AudioPolicy): StreamInfo[] {
+  const languages = policy.languages.map((language) => language.toLowerCase());
+  // Tags come from the muxer as written (ENG, Eng), so compare lowercased
+  const originalLanguage = getOriginalLanguage(audioStreams)?.toLowerCase();
+
+  const selected = audioStreams.filter((stream) => {
+    if (!policy.keepCommentary && isCommentary(stream)) {
+      return false;
+    }
+    // Untagged tracks can't be judged by language; keep them
+    if (languages.length === 0 || !stream.language) {
+      return true;
+    }
+    const language = stream.language.toLowerCase();
+    if (languages.includes(language)) {
+      return true;
+    }
+    return policy.keepOriginalLanguage && language === originalLanguage;
+  });
+
+  if (selected.length === 0 && audioStreams.length > 0) {
+    return [audioStreams.find((s) => s.disposition.includes('default')) ?? audioStreams[0]];
+  }
+  return selected;
+}
+
+/**
+ * Decide whether a kept audio track is copied or converted
+ */
+export function planAudioTrack(stream: StreamInfo, policy: AudioPolicy): AudioTrackPlan {
+  const codecLimit = AUDIO_ENCODERS[policy.codec].maxChannels;
+  const maxChannels = policy.maxChannels > 0 ? Math.min(policy.maxChannels, codecLimit) : codecLimit;
+  const tooManyChannels = policy.maxChannels > 0 && (stream.channels ?? 0) > policy.maxChannels;
+
+  const convert = (policy.convertLossless && isLosslessOrDts(stream)) ||
+    (!policy.keepLossy && !isLosslessOrDts(stream)) ||
+    tooManyChannels;
+
+  if (!convert) {
+    return { stream, action: 'copy' };
+  }
+
+  const plan: AudioTrackPlan = { stream, action: 'convert' };
+  if (stream.channels && stream.channels > maxChannels) {
+    plan.channels = maxChannels;
+  }
+  return plan;
+}
+
+/**
+ * Plan the streams of a transcode from its probe data, the audio policy and
+ * the output container
+ * Returns null when there is no per-stream probe data to plan with
+ */
+export function planStreams(
+  file: MediaFile,
+  config: Config,
+  container: OutputContainer,
+): StreamPlan | null {
+  const video = file.streams ? selectMainVideoStream(file.streams) : null;
+  if (!file.streams || !video) {
+    return null;
+  }
+
+  const policy = config.audio[file.type];
+  const audioStreams = file.streams.filter((s) => s.codecType === 'audio');
+  const kept = selectAudioTracks(audioStreams, policy);
+
+  const subtitles: SubtitleTrackPlan[] = [];
+  const droppedSubtitles: StreamInfo[] = [];
+  for (const stream of file.streams.filter((s) => s.codecType === 'subtitle')) {
+    const plan = planSubtitleTrack(stream, container);
+    if (plan) {
+      subtitles.push(plan);
+    } else {
+      droppedSubtitles.push(stream);
+    }
+  }
+
+  return {
+    container,
+    video,
+    coverArt: file.streams.filter((s) => s.codecType === 'video' && s !== video && isCoverArt(s)),
+    audio: kept.map((stream) => planAudioTrack(stream, policy)),
+    droppedAudio: audioStreams.filter((stream) => !kept.includes(stream)),
+    subtitles,
+    droppedSubtitles,
+    // MP4 has no attachments; fonts are only useful to ASS subtitles in MKV anyway
+    attachments: container === 'mkv' ? file.streams.filter((s) => s.codecType === 'attachment') : [],
+  };
+}
+
+/**
+ * Build the `-map` and per-stream codec arguments for a plan
+ * The main video is always output video stream 0; its codec arguments come
+ * from the encoder backend
+ */
+export function buildStreamArgs(plan: StreamPlan | null, config: Config, file: MediaFile): string[] {
+  if (!plan) {
+    // No stream data: copy everything as-is
+    return ['-map', '0', '-c:a', 'copy', '-c:s', 'copy'];
+  }
+
+  const args: string[] = ['-map', `0:${plan.video.index}`];
+  for (const stream of plan.coverArt) {
+    args.push('-map', `0:${stream.index}`);
+  }
+  for (const track of plan.audio) {
+    args.push('-map', `0:${track.stream.index}`);
+  }
+  for (const track of plan.subtitles) {
+    args.push('-map', `0:${track.stream.index}`);
+  }
+  for (const stream of plan.attachments) {
+    args.push('-map', `0:${stream.index}`);
+  }
+
+  // Global metadata and chapters; stream metadata follows each mapped stream
+  args.push('-map_metadata', '0', '-map_chapters', '0');
+
+  // Cover art is copied and flagged as an attached picture, which MKV stores as an attachment
+  plan.coverArt.forEach((stream, i) => {
+    const index = i + 1;
+    args.push(`-c:v:${index}`, 'copy', `-disposition:v:${index}`, 'attached_pic');
+    const image = IMAGE_MIMETYPES[stream.codecName];
+    if (plan.container === 'mkv' && image) {
+      args.push(
+        `-metadata:s:v:${index}`,
+        `filename=${stream.filename ?? `cover.${image.extension}`}`,
+        `-metadata:s:v:${index}`,
+        `mimetype=${stream.mimetype ?? image.mimetype}`,
+      );
+    }
+  });
+
+  const policy = config.audio[file.type];
+  const { encoder } = AUDIO_ENCODERS[policy.codec];
+
+  plan.audio.forEach((track, i) => {
+    if (track.action === 'copy') {
+      args.push(`-c:a:${i}`, 'copy');
+      return;
+    }
+
+    args.push(`-c:a:${i}`, encoder, `-b:a:${i}`, policy.bitrate);
+    if (track.channels) {
+      args.push(`-ac:a:${i}`, String(track.channels));
+    }
+    // libopus needs the surround mapping family for more than two channels
+    if (policy.codec === 'opus' && (track.channels ?? track.stream.channels ?? 2) > 2) {
+      args.push(`-mapping_family:a:${i}`, '1');
+    }
+  });
+
+  plan.subtitles.forEach((track, i) => {
+    args.push(`-c:s:${i}`, track.codec);
+  });
+
+  if (plan.attachments.length > 0) {
+    args.push('-c:t', 'copy');
+  }
+
+  return args;
+}
+
+/**
+ * Describe the audio part of a plan for logging
+ */
+export function describeAudioPlan(plan: StreamPlan | null, config: Config, file: MediaFile): string | null {
+  if (!plan) return null;
+
+  const converted = plan.audio.filter((track) => track.action === 'convert').length;
+  const parts = [`${plan.audio.length} kept`];
+  if (converted > 0) {
+    parts.push(`${converted} converted to ${config.audio[file.type].codec}`);
+  }
+  if (plan.droppedAudio.length > 0) {
+    parts.push(`${plan.droppedAudio.length} dropped`);
+  }
+  return parts.join(', ');
+}
+
+/**
+ * Describe the subtitle part of a plan for logging
+ */
+export function describeSubtitlePlan(plan: StreamPlan | null): string | null {
+  if (!plan || (plan.subtitles.length === 0 && plan.droppedSubtitles.length === 0)) return null;
+
+  const converted = plan.subtitles.filter((track) => track.codec !== 'copy').length;
+  const parts = [`${plan.subtitles.length} kept`];
+  if (converted > 0) {
+    parts.push(`${converted} converted for ${plan.container}`);
+  }
+  if (plan.droppedSubtitles.length > 0) {
+    const codecs = [...new Set(plan.droppedSubtitles.map((s) => s.codecName))].join(', ');
+    parts.push(`${plan.droppedSubtitles.length} dropped (${codecs} not supported)`);
+  }
+  return parts.join(', ');
+}
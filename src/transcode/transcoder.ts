@@ -1,13 +1,47 @@
 /**
  * Transcoder module for danger-transcode
- * Builds and executes FFmpeg commands with Rockchip hardware acceleration
+ * Builds and executes FFmpeg commands through the selected encoder backend
  */
 
 import { basename, join } from '@std/path';
 import { ensureDir } from '@std/fs';
-import type { Config, MediaFile, TranscodeRecord } from './types.ts';
+import type {
+  Config,
+  ErrorRecord,
+  FailureCategory,
+  MediaFile,
+  OutputContainer,
+  RetryStrategy,
+  SizePrediction,
+  TranscodeProgressCallback,
+  TranscodeRecord,
+} from './types.ts';
 import { getLogger } from './logger.ts';
 import { formatDuration, formatFileSize } from './ffprobe.ts';
+import { readProgressStream } from './progress.ts';
+import { verifyTranscodedOutput } from './verify.ts';
+import { type EncodeSettings, type EncoderBackend, getStrategyBackend } from './encoders.ts';
+import { getOutputPath, renameSidecars, resolveOutputContainer } from './container.ts';
+import { buildColorArgs, getHdrHandling, getHdrSkipReason } from './hdr.ts';
+import { getTargetBitrate } from './bitrate.ts';
+import { tryComputeFingerprint } from './fingerprint.ts';
+import {
+  buildStreamArgs,
+  describeAudioPlan,
+  describeSubtitlePlan,
+  getOutputContainer,
+  planStreams,
+} from './streams.ts';
+import {
+  classifyFailureMessage,
+  classifyFFmpegFailure,
+  getInitialStrategy,
+  getNextStrategy,
+} from './failures.ts';
+import { quarantineFile } from './quarantine.ts';
+import { appendJournalEntry } from './journal.ts';
+import { moveFile, pathExists } from '../shared/files.ts';
+import { getProcessRegistry } from '../shared/process.ts';
 
 const logger = getLogger().child('transcoder');
 
@@ -16,18 +50,19 @@ export interface TranscodeResult {
   success: boolean;
   record?: TranscodeRecord;
   error?: string;
+  /** True when the transcode was stopped by a shutdown rather than failing */
+  interrupted?: boolean;
+  /** Why the file was left alone, when a policy says not to transcode it */
+  skipped?: string;
+  /** Why the transcode failed */
+  category?: FailureCategory;
+  /** Strategy used by the last attempt */
+  strategy?: RetryStrategy;
 }
 
-/**
- * Get appropriate bitrate for the target resolution
- */
-function getBitrate(height: number, config: Config): string {
-  if (height <= 720) {
-    return config.bitrates.low;
-  } else if (height <= 1080) {
-    return config.bitrates.medium;
-  }
-  return config.bitrates.high;
+/** Result of a single attempt; only FFmpeg and verification failures are worth retrying */
+interface AttemptResult extends TranscodeResult {
+  retryable?: boolean;
 }
 
 /**
@@ -43,69 +78,75 @@ function getMaxBitrate(bitrate: string): string {
 }
 
 /**
- * Build FFmpeg command arguments for hardware-accelerated transcoding
+ * Pick the backend and per-file encode settings for a strategy
+ */
+export function getEncodeSettings(
+  file: MediaFile,
+  config: Config,
+  strategy: RetryStrategy = 'default',
+  bitrate: string = getTargetBitrate(file, config),
+): { backend: EncoderBackend; settings: EncodeSettings } {
+  const hdr = getHdrHandling(file, config);
+  const backend = getStrategyBackend(config, strategy, hdr === 'preserve');
+  const tonemap = hdr === 'tonemap';
+
+  const targetWidth = file.targetWidth ?? file.width;
+  const targetHeight = file.targetHeight ?? file.height;
+  const settings: EncodeSettings = {
+    file,
+    bitrate,
+    maxBitrate: getMaxBitrate(bitrate),
+    needsScale: targetWidth !== file.width || targetHeight !== file.height,
+    targetWidth,
+    targetHeight,
+    // Tone-mapping runs in software, so frames must be decoded on the CPU
+    hardwareDecode: strategy === 'default' && !tonemap,
+    tenBit: backend.main10 && (file.color?.bitDepth ?? 8) > 8 && !tonemap,
+    hdr: hdr === 'skip' ? null : hdr,
+  };
+
+  return { backend, settings };
+}
+
+/**
+ * Build FFmpeg command arguments using the configured encoder backend
  */
 export function buildFFmpegArgs(
   inputPath: string,
   outputPath: string,
   file: MediaFile,
   config: Config,
+  strategy: RetryStrategy = 'default',
 ): string[] {
   const args: string[] = [];
+  const { backend, settings } = getEncodeSettings(file, config, strategy);
 
-  // Hardware acceleration input options (Rockchip MPP)
-  if (config.useHardwareAccel) {
-    args.push('-hwaccel', 'rkmpp');
-    args.push('-hwaccel_output_format', 'drm_prime');
-    args.push('-afbc', 'rga');
-  }
+  // Machine-readable progress on stdout, no periodic stats on stderr
+  args.push('-progress', 'pipe:1', '-nostats');
+
+  // Decoder / hardware context options
+  args.push(...backend.inputArgs(settings, config));
 
   // Input file
   args.push('-i', inputPath);
 
   // Video encoding
-  const bitrate = getBitrate(file.targetHeight ?? file.height, config);
-  const maxBitrate = getMaxBitrate(bitrate);
-
-  // Video filter for scaling (if needed)
-  const needsScale = file.targetWidth !== file.width || file.targetHeight !== file.height;
-
-  if (config.useHardwareAccel) {
-    // Hardware-accelerated encoder
-    args.push('-c:v', 'hevc_rkmpp');
-
-    if (needsScale) {
-      // Use hardware scaler
-      args.push(
-        '-vf',
-        `scale_rkrga=w=${file.targetWidth}:h=${file.targetHeight}:format=nv12:afbc=1`,
-      );
-    }
-
-    // Encoder settings
-    args.push('-rc_mode', 'VBR');
-    args.push('-b:v', bitrate);
-    args.push('-maxrate', maxBitrate);
-  } else {
-    // Software fallback (libx265)
-    args.push('-c:v', 'libx265');
-    args.push('-preset', 'medium');
-    args.push('-crf', '23');
-
-    if (needsScale) {
-      args.push('-vf', `scale=${file.targetWidth}:${file.targetHeight}`);
+  args.push(...backend.videoArgs(settings, config));
+  args.push(...buildColorArgs(file, settings.hdr));
+
+  // Stream mapping: main video, cover art, audio policy, subtitles, attachments
+  const container = getOutputContainer(outputPath);
+  const plan = planStreams(file, config, container);
+  args.push(...buildStreamArgs(plan, config, file));
+
+  if (container === 'mp4') {
+    // Index up front for streaming; hvc1 is the HEVC tag Apple players expect
+    args.push('-movflags', '+faststart');
+    if (backend.codec === 'hevc') {
+      args.push('-tag:v:0', 'hvc1');
     }
   }
 
-  // Audio: copy if possible
-  args.push('-c:a', 'copy');
-
-  // Subtitles: copy
-  args.push('-c:s', 'copy');
-
-  // Map all streams
-  args.push('-map', '0');
-
   // Overwrite output
   args.push('-y');
 
@@ -118,33 +159,136 @@ export function buildFFmpegArgs(
 /**
  * Generate a temporary output path for transcoding
  */
-export function getTempOutputPath(config: Config, inputPath: string): string {
+export function getTempOutputPath(
+  config: Config,
+  inputPath: string,
+  container: OutputContainer = 'mkv',
+): string {
   const fileName = basename(inputPath);
-  const outputName = fileName.replace(/\.[^.]+$/, '.transcoding.mkv');
+  const outputName = fileName.replace(/\.[^.]+$/, `.transcoding.${container}`);
   return join(config.tempDir, outputName);
 }
 
+/**
+ * Run FFmpeg, streaming `-progress` output to the callback while it encodes
+ */
+async function runFFmpeg(
+  config: Config,
+  args: string[],
+  file: MediaFile,
+  outputPath: string,
+  onProgress?: TranscodeProgressCallback,
+): Promise<{ code: number; signal: Deno.Signal | null; stderr: string }> {
+  const command = new Deno.Command(config.ffmpegPath, {
+    args,
+    stdin: 'null',
+    stdout: 'piped',
+    stderr: 'piped',
+  });
+
+  // Tracked so a shutdown can stop it and remove the partial output
+  const process = getProcessRegistry().spawn(
+    command,
+    file.path,
+    [outputPath],
+    'transcode',
+    file.path,
+  );
+  const durationSeconds = file.duration ?? 0;
+
+  // Drain both pipes concurrently so FFmpeg never blocks on a full buffer
+  const [, stderr, status] = await Promise.all([
+    readProgressStream(process.stdout, durationSeconds, (progress) => onProgress?.(progress)),
+    new Response(process.stderr).text(),
+    process.status,
+  ]);
+
+  return { code: status.code, signal: status.signal, stderr };
+}
+
 /**
  * Transcode a single media file
+ * Failed attempts are classified and retried with the next strategy for their
+ * category, e.g. software decode and then libx265 after a hardware failure
  */
 export async function transcodeFile(
   file: MediaFile,
   config: Config,
+  onProgress?: TranscodeProgressCallback,
+  previousError?: ErrorRecord | null,
 ): Promise<TranscodeResult> {
+  const skipReason = getHdrSkipReason(file, config);
+  if (skipReason) {
+    logger.info(`Skipping ${file.path}: ${skipReason}`);
+    return { success: false, skipped: skipReason };
+  }
+
+  const { backend } = getEncodeSettings(file, config);
+  let strategy = getInitialStrategy(backend, previousError);
+
+  while (true) {
+    const { retryable, ...result } = await attemptTranscode(file, config, strategy, onProgress);
+    if (result.success || result.interrupted || !retryable || !result.category) {
+      return result;
+    }
+
+    const next = getNextStrategy(backend, result.category, strategy);
+    if (!next) {
+      return result;
+    }
+
+    logger.warn(`Retrying with strategy '${next}' after ${result.category} failure: ${file.path}`);
+    strategy = next;
+  }
+}
+
+/**
+ * Run one transcode attempt with the given strategy
+ */
+async function attemptTranscode(
+  file: MediaFile,
+  config: Config,
+  strategy: RetryStrategy,
+  onProgress?: TranscodeProgressCallback,
+): Promise<AttemptResult> {
   const startTime = Date.now();
+  const hdr = getHdrHandling(file, config);
+  const backend = getStrategyBackend(config, strategy, hdr === 'preserve');
   logger.info(`Starting transcode: ${file.path}`);
   logger.info(
-    `  ${file.codec} ${file.width}x${file.height} -> HEVC ${file.targetWidth}x${file.targetHeight}`,
+    `  ${file.codec} ${file.width}x${file.height} -> ${backend.codec.toUpperCase()} ${file.targetWidth}x${file.targetHeight}` +
+      (strategy === 'default' ? '' : ` (${strategy})`),
   );
+  if (hdr && file.color) {
+    logger.info(`  HDR: ${file.color.hdrFormat} ${file.color.bitDepth}-bit (${hdr})`);
+  }
 
   // Ensure temp directory exists
   await ensureDir(config.tempDir);
 
-  // Generate temp output path
-  const tempOutputPath = getTempOutputPath(config, file.path);
+  // Generate temp and final output paths; the final path differs when the container changes
+  const container = resolveOutputContainer(file.path, config);
+  const outputPath = getOutputPath(file.path, container);
+  const tempOutputPath = getTempOutputPath(config, file.path, container);
+
+  if (outputPath !== file.path && await pathExists(outputPath)) {
+    const error = `Output path already exists: ${outputPath}`;
+    logger.error(`Transcode failed: ${file.path}`, error);
+    return { success: false, error };
+  }
+
+  const plan = planStreams(file, config, container);
+  const audioSummary = describeAudioPlan(plan, config, file);
+  if (audioSummary) {
+    logger.info(`  Audio: ${audioSummary}`);
+  }
+  const subtitleSummary = describeSubtitlePlan(plan);
+  if (subtitleSummary) {
+    logger.info(`  Subtitles: ${subtitleSummary}`);
+  }
 
   // Build FFmpeg command
-  const args = buildFFmpegArgs(file.path, tempOutputPath, file, config);
+  const args = buildFFmpegArgs(file.path, tempOutputPath, file, config, strategy);
 
   logger.debug(`FFmpeg command: ${config.ffmpegPath} ${args.join(' ')}`);
 
@@ -155,18 +299,23 @@ export async function transcodeFile(
 
   try {
     // Run FFmpeg
-    const command = new Deno.Command(config.ffmpegPath, {
-      args,
-      stdout: 'piped',
-      stderr: 'piped',
-    });
+    const { code, signal, stderr } = await runFFmpeg(config, args, file, tempOutputPath, onProgress);
 
-    const process = command.spawn();
-    const { code, stderr } = await process.output();
+    if (getProcessRegistry().isShuttingDown) {
+      return { success: false, interrupted: true, error: 'Interrupted by shutdown', strategy };
+    }
 
     if (code !== 0) {
-      const errorText = new TextDecoder().decode(stderr);
-      throw new Error(`FFmpeg exited with code ${code}: ${errorText}`);
+      await removeTempOutput(tempOutputPath);
+      const category = classifyFFmpegFailure(code, signal, stderr);
+      logger.error(`Transcode failed (${category}, strategy '${strategy}'): ${file.path}`);
+      return {
+        success: false,
+        error: `FFmpeg exited with code ${code}: ${stderr}`,
+        category,
+        strategy,
+        retryable: true,
+      };
     }
 
     // Get file sizes
@@ -208,12 +357,26 @@ export async function transcodeFile(
           duration,
           success: true,
           error: 'Transcoded file was not smaller - kept original',
+          fingerprint: await tryComputeFingerprint(file.path),
         },
       };
     }
 
+    // Verify output before touching the original
+    const verification = await verifyTranscodedOutput(file, tempOutputPath, config);
+    if (!verification.passed) {
+      await removeTempOutput(tempOutputPath);
+      return {
+        success: false,
+        error: `Verification failed: ${verification.failures.join('; ')}`,
+        category: 'verification',
+        strategy,
+        retryable: true,
+      };
+    }
+
     // Replace original file with transcoded version
-    await replaceOriginalFile(file.path, tempOutputPath);
+    const quarantinePath = await replaceOriginalFile(file.path, tempOutputPath, outputPath, config);
 
     // Create transcode record
     const record: TranscodeRecord = {
@@ -230,89 +393,166 @@ export async function transcodeFile(
       success: true,
     };
 
-    return { success: true, record };
+    if (strategy !== 'default') {
+      record.strategy = strategy;
+    }
+
+    if (hdr && hdr !== 'skip') {
+      record.hdrHandling = hdr;
+    }
+
+    if (file.prediction) {
+      record.predictedSize = file.prediction.size;
+      record.predictedSeconds = file.prediction.encodeSeconds;
+    }
+
+    if (outputPath !== file.path) {
+      record.outputPath = outputPath;
+      await renameSidecars(file.path, outputPath);
+    }
+
+    // Identify the new file by content so renames and moves keep the record
+    record.fingerprint = await tryComputeFingerprint(outputPath);
+
+    if (quarantinePath) {
+      record.quarantinePath = quarantinePath;
+      record.quarantinedAt = new Date().toISOString();
+    }
+
+    return { success: true, record, strategy };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    logger.error(`Transcode failed: ${file.path}`, errorMessage);
 
-    // Clean up temp file if it exists
-    try {
-      await Deno.remove(tempOutputPath);
-    } catch {
-      // Ignore cleanup errors
+    await removeTempOutput(tempOutputPath);
+
+    if (getProcessRegistry().isShuttingDown) {
+      return { success: false, interrupted: true, error: 'Interrupted by shutdown', strategy };
     }
 
-    return { success: false, error: errorMessage };
+    logger.error(`Transcode failed: ${file.path}`, errorMessage);
+    return { success: false, error: errorMessage, category: classifyFailureMessage(errorMessage), strategy };
   }
 }
 
 /**
- * Move a file, handling cross-filesystem moves by falling back to copy+delete
+ * Remove a temp output, ignoring a missing file
  */
-async function moveFile(src: string, dest: string): Promise<void> {
+async function removeTempOutput(tempOutputPath: string): Promise<void> {
   try {
-    // Try rename first (fast, same filesystem)
-    await Deno.rename(src, dest);
-  } catch (error) {
-    // Check if it's a cross-device error (EXDEV)
-    if (error instanceof Error && error.message.includes('cross-device')) {
-      // Fall back to copy + delete
-      await Deno.copyFile(src, dest);
-      await Deno.remove(src);
-    } else {
-      throw error;
-    }
+    await Deno.remove(tempOutputPath);
+  } catch {
+    // Ignore cleanup errors
   }
 }
 
 /**
  * Replace the original file with the transcoded version
- * Preserves file permissions and timestamps where possible
+ * Every step is journaled first so a crash mid-swap can be repaired at startup
+ * The original is quarantined when configured, otherwise deleted
+ * Returns the quarantine path of the original, if it was kept
  */
 async function replaceOriginalFile(
   originalPath: string,
   transcodedPath: string,
-): Promise<void> {
+  outputPath: string,
+  config: Config,
+): Promise<string | undefined> {
   // Create backup path (in case we need to recover)
   const backupPath = originalPath + '.backup';
+  const journal = { id: crypto.randomUUID(), originalPath, backupPath, transcodedPath, outputPath };
+
+  await appendJournalEntry(config, { ...journal, step: 'begin' });
 
   try {
     // Rename original to backup (same filesystem, should always work)
     await Deno.rename(originalPath, backupPath);
+    await appendJournalEntry(config, { ...journal, step: 'backed-up' });
 
-    // Move transcoded file to original location (may be cross-filesystem)
-    await moveFile(transcodedPath, originalPath);
-
-    // Remove backup
-    await Deno.remove(backupPath);
-
-    logger.debug(`Replaced original file: ${originalPath}`);
+    // Move transcoded file into place (may be cross-filesystem)
+    await moveFile(transcodedPath, outputPath);
+    await appendJournalEntry(config, { ...journal, step: 'replaced' });
   } catch (error) {
     // Try to restore backup if something went wrong
     try {
+      if (outputPath !== originalPath && await pathExists(outputPath)) {
+        await Deno.remove(outputPath);
+      }
       await Deno.rename(backupPath, originalPath);
+      await appendJournalEntry(config, { ...journal, step: 'rolled-back' });
     } catch {
-      // Backup restore failed too
+      // Backup restore failed too; startup recovery will retry from the journal
     }
     throw error;
   }
+
+  logger.debug(`Replaced original file: ${originalPath}${outputPath !== originalPath ? ` -> ${outputPath}` : ''}`);
+
+  // The swap is done; from here on only the backup's fate is decided
+  let quarantinePath: string | undefined;
+  if (config.quarantine.enabled) {
+    try {
+      quarantinePath = await quarantineFile(config, backupPath, originalPath);
+    } catch (error) {
+      logger.warn(`Failed to quarantine original, deleting it instead: ${originalPath}`, error);
+    }
+  }
+
+  if (!quarantinePath) {
+    await Deno.remove(backupPath);
+  }
+
+  await appendJournalEntry(config, { ...journal, step: 'complete' });
+  return quarantinePath;
+}
+
+/** Pixel rate of a 1080p30 stream, the unit of job cost */
+const REFERENCE_PIXEL_RATE = 1920 * 1080 * 30;
+
+/** Frame rate assumed when the probe didn't report one */
+const DEFAULT_FRAME_RATE = 30;
+
+/**
+ * Estimate how much of the transcode capacity a file takes while encoding
+ * Averages the decode and encode pixel rates against a 1080p30 stream, so a
+ * 1080p30 hardware transcode costs 1 and a 4K to 1080p one 2.5; software
+ * decoding or encoding costs `scheduler.softwareFactor` times as much
+ */
+export function estimateJobCost(file: MediaFile, config: Config): number {
+  const { backend, settings } = getEncodeSettings(file, config);
+  const fps = file.frameRate ?? DEFAULT_FRAME_RATE;
+  const software = config.scheduler.softwareFactor;
+
+  const decode = (file.width * file.height * fps) / REFERENCE_PIXEL_RATE *
+    (settings.hardwareDecode && backend.hardware ? 1 : software);
+  const encode = (settings.targetWidth * settings.targetHeight * fps) / REFERENCE_PIXEL_RATE *
+    (backend.hardware ? 1 : software);
+
+  return (decode + encode) / 2;
 }
 
 /**
  * Estimate transcode time based on duration and resolution
+ * A sample-encode prediction is used instead when available, scaled by how far
+ * recent predictions were off (`timeCorrection`)
  */
 export function estimateTranscodeTime(
   durationSeconds: number,
   height: number,
-  useHardwareAccel: boolean,
+  hardware: boolean,
+  prediction?: SizePrediction,
+  timeCorrection = 1,
 ): number {
+  if (prediction) {
+    return prediction.encodeSeconds * timeCorrection;
+  }
+
   // Rough estimates based on RK3588 performance
   // Hardware: ~2-4x realtime for 1080p HEVC
   // Software: ~0.1-0.5x realtime depending on preset
 
   let speedFactor: number;
 
-  if (useHardwareAccel) {
+  if (hardware) {
     if (height <= 720) {
       speedFactor = 4.0; // 4x realtime for 720p
     } else if (height <= 1080) {
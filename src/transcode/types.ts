@@ -2,11 +2,71 @@
  * Types and interfaces for the danger-transcode system
  */
 
+import type {
+  AudioCodec,
+  AudioPolicy,
+  AudioPolicyConfig,
+  EncoderName,
+  GovernorConfig,
+  HdrPolicy,
+  HdrPolicyConfig,
+  OutputContainerPolicy,
+  PredictionConfig,
+  ProbeConfig,
+  QualityConfig,
+  QualityMetric,
+  QualityTargetConfig,
+  QuarantineConfig,
+  SavingsConfig,
+  ScheduleConfig,
+  OrderingConfig,
+  OrderStrategy,
+  SchedulerConfig,
+  ScheduleWindow,
+  ThrottleAction,
+  VerificationConfig,
+  WatchConfig,
+  Weekday,
+} from '../shared/types.ts';
+
+export type {
+  AudioCodec,
+  AudioPolicy,
+  AudioPolicyConfig,
+  EncoderName,
+  GovernorConfig,
+  HdrPolicy,
+  HdrPolicyConfig,
+  OutputContainerPolicy,
+  PredictionConfig,
+  ProbeConfig,
+  QualityConfig,
+  QualityMetric,
+  QualityTargetConfig,
+  QuarantineConfig,
+  SavingsConfig,
+  ScheduleConfig,
+  OrderingConfig,
+  OrderStrategy,
+  SchedulerConfig,
+  ScheduleWindow,
+  ThrottleAction,
+  VerificationConfig,
+  WatchConfig,
+  Weekday,
+};
+
 /** Media type classification */
 export type MediaType = 'tv' | 'movie' | 'other';
 
 /** Transcoding status */
-export type TranscodeStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'skipped';
+export type TranscodeStatus =
+  | 'pending'
+  | 'processing'
+  | 'completed'
+  | 'failed'
+  | 'skipped'
+  | 'interrupted';
 
 /** Video codec information from ffprobe */
 export interface VideoStreamInfo {
@@ -15,23 +75,59 @@ export interface VideoStreamInfo {
   width: number;
   height: number;
   pix_fmt?: string;
+  bits_per_raw_sample?: string;
+  color_transfer?: string;
+  color_primaries?: string;
+  color_space?: string;
   bit_rate?: string;
   duration?: string;
   r_frame_rate?: string;
   avg_frame_rate?: string;
 }
 
+/** HDR formats the transcoder recognizes */
+export type HdrFormat = 'hdr10' | 'hlg' | 'dolby-vision';
+
+/** Bit depth and color description of the main video stream */
+export interface VideoColorInfo {
+  bitDepth: number;
+  colorTransfer?: string;
+  colorPrimaries?: string;
+  colorSpace?: string;
+  /** null for SDR */
+  hdrFormat: HdrFormat | null;
+  /** Dolby Vision profile, when DV configuration side data is present */
+  dolbyVisionProfile?: number;
+  /** Whether the Dolby Vision base layer is HDR10/HLG/SDR compatible (false for profile 5) */
+  dolbyVisionCompatible?: boolean;
+}
+
 /** Full ffprobe output structure */
 export interface FFProbeOutput {
   streams: Array<{
+    index: number;
     codec_type: string;
     codec_name: string;
+    profile?: string;
     width?: number;
     height?: number;
     pix_fmt?: string;
+    bits_per_raw_sample?: string;
+    color_transfer?: string;
+    color_primaries?: string;
+    color_space?: string;
+    side_data_list?: Array<{
+      side_data_type: string;
+      dv_profile?: number;
+      dv_bl_signal_compatibility_id?: number;
+    }>;
+    channels?: number;
+    channel_layout?: string;
     bit_rate?: string;
     duration?: string;
     r_frame_rate?: string;
+    disposition?: Record<string, number>;
+    tags?: Record<string, string>;
   }>;
   format: {
     filename: string;
@@ -42,6 +138,30 @@ export interface FFProbeOutput {
   };
 }
 
+/** A single input stream, as used for stream selection */
+export interface StreamInfo {
+  /** Index of the stream in the input file */
+  index: number;
+  codecType: string;
+  codecName: string;
+  profile?: string;
+  width?: number;
+  height?: number;
+  channels?: number;
+  bitrate?: number;
+  /** ISO 639-2 language tag, if set */
+  language?: string;
+  title?: string;
+  /** Attachment file name and MIME type (fonts, cover art) */
+  filename?: string;
+  mimetype?: string;
+  /** ffprobe disposition flags that are set (default, forced, comment, attached_pic, ...) */
+  disposition: string[];
+}
+
+/** Containers the transcoder can write */
+export type OutputContainer = 'mkv' | 'mp4';
+
 /** Media file with analysis information */
 export interface MediaFile {
   path: string;
@@ -50,12 +170,44 @@ export interface MediaFile {
   width: number;
   height: number;
   size: number;
+  /** Modification time (ms since epoch) */
+  mtime?: number;
   duration?: number;
+  /** Source video bitrate (bits per second) */
   bitrate?: number;
+  /** Source frame rate (frames per second) */
+  frameRate?: number;
+  /** Video bitrate to encode at (bits per second), when capped below the resolution tier */
+  targetBitrate?: number;
   needsTranscode: boolean;
   skipReason?: string;
   targetWidth?: number;
   targetHeight?: number;
+  /** Per-stream probe data, used to select and convert streams */
+  streams?: StreamInfo[];
+  /** Bit depth and HDR description of the main video stream */
+  color?: VideoColorInfo;
+  /** Output size and encode time extrapolated from sample encodes */
+  prediction?: SizePrediction;
+}
+
+/** Output size and encode time extrapolated from sample encodes */
+export interface SizePrediction {
+  /** Predicted output size (bytes) */
+  size: number;
+  /** Predicted encode wall time (seconds) */
+  encodeSeconds: number;
+  /** Video bitrate the samples came out at (bits per second) */
+  sampleBitrate: number;
+}
+
+/** Content identity of a file: size plus SHA-256 of its first and last 256 KiB */
+export interface FileFingerprint {
+  size: number;
+  /** Modification time (ms since epoch); a match skips re-hashing an unchanged path */
+  mtime: number;
+  head: string;
+  tail: string;
 }
 
 /** Record of a transcoded file stored in the database */
@@ -72,22 +224,86 @@ export interface TranscodeRecord {
   duration: number;
   success: boolean;
   error?: string;
+  /** Where the replaced original is kept, while it is quarantined */
+  quarantinePath?: string;
+  /** When the original was moved into quarantine */
+  quarantinedAt?: string;
+  /** True once the original has been restored over the transcoded file */
+  reverted?: boolean;
+  /** When the original was restored */
+  revertedAt?: string;
+  /** Strategy that produced the output, when not the default */
+  strategy?: RetryStrategy;
+  /** Path of the transcoded file, when the container change renamed it */
+  outputPath?: string;
+  /** How an HDR source was handled */
+  hdrHandling?: Exclude<HdrPolicy, 'skip'>;
+  /** Fingerprint of the file now on disk; records without one are keyed by path */
+  fingerprint?: FileFingerprint;
+  /** Output size predicted from sample encodes (bytes) */
+  predictedSize?: number;
+  /** Encode time predicted from sample encodes (seconds) */
+  predictedSeconds?: number;
 }
 
+/** Why a transcode failed, classified from FFmpeg's exit status and stderr */
+export type FailureCategory =
+  | 'hardware-init'
+  | 'unsupported-input'
+  | 'corrupt-source'
+  | 'out-of-space'
+  | 'killed'
+  | 'verification'
+  | 'unknown';
+
+/**
+ * How a transcode is run
+ * - default: the configured backend as-is (hardware decode + encode where supported)
+ * - software-decode: software decode, hardware encode
+ * - software: full software encode with libx265
+ */
+export type RetryStrategy = 'default' | 'software-decode' | 'software';
+
 /** Error record for failed transcodes */
 export interface ErrorRecord {
   path: string;
   timestamp: string;
   error: string;
   attempts: number;
+  /** 'interrupted' when a shutdown stopped the transcode; these do not count as attempts */
+  status?: Extract<TranscodeStatus, 'failed' | 'interrupted'>;
+  /** Category of the last failure */
+  category?: FailureCategory;
+  /** Strategy used by the last attempt */
+  strategy?: RetryStrategy;
 }
 
 /** Database structure */
 export interface TranscodeDatabase {
   version: number;
   lastRun: string;
+  /** Records by fingerprint key (see getFingerprintKey) */
   records: Record<string, TranscodeRecord>;
+  /** Current file path -> record key */
+  paths: Record<string, string>;
   errors: Record<string, ErrorRecord>;
+  /** Quality calibrations by source path */
+  calibrations: Record<string, CalibrationRecord>;
+}
+
+/** Bitrate picked by quality calibration for a source file */
+export interface CalibrationRecord {
+  calibratedAt: string;
+  /** Source size at calibration time; a changed file is calibrated again */
+  sourceSize: number;
+  metric: QualityMetric;
+  target: number;
+  /** Chosen video bitrate (bits per second) */
+  bitrate: number;
+  /** Mean sample score at the chosen bitrate */
+  score: number;
+  /** False when no candidate reached the target and the highest was used */
+  metTarget: boolean;
 }
 
 /** Bitrate configuration */
@@ -124,6 +340,10 @@ export interface Config {
   errorLogPath: string;
   /** Lock file path for singleton execution */
   lockFilePath: string;
+  /** Write-ahead journal of in-progress file replacements */
+  journalPath: string;
+  /** Persisted queue of transcode jobs */
+  queuePath: string;
   /** Maximum concurrent transcodes */
   maxConcurrency: number;
   /** Maximum height for TV shows (720p = 720) */
@@ -142,6 +362,38 @@ export interface Config {
   ffprobePath: string;
   /** Whether to use hardware acceleration */
   useHardwareAccel: boolean;
+  /** Encoder backend; 'auto' is resolved to a concrete backend at startup */
+  encoder: EncoderName | 'auto';
+  /** Render node used by VAAPI and QSV backends */
+  hwDevice: string;
+  /** Audio track selection and conversion per media type */
+  audio: AudioPolicyConfig;
+  /** Container of transcoded files */
+  outputContainer: OutputContainerPolicy;
+  /** HDR handling per media type */
+  hdr: HdrPolicyConfig;
+  /** Bitrate cap and minimum savings thresholds */
+  savings: SavingsConfig;
+  /** Sample-based size prediction */
+  prediction: PredictionConfig;
+  /** Sample-based quality calibration */
+  quality: QualityConfig;
+  /** Probe cache and parallel probing */
+  probe: ProbeConfig;
+  /** Watch mode settings */
+  watch: WatchConfig;
+  /** Allowed time windows */
+  schedule: ScheduleConfig;
+  /** Thermal and load throttling */
+  governor: GovernorConfig;
+  /** Weighted scheduling of concurrent transcodes */
+  scheduler: SchedulerConfig;
+  /** Order files are transcoded in */
+  ordering: OrderingConfig;
+  /** Checks run on transcoded output before it replaces the original */
+  verification: VerificationConfig;
+  /** Quarantine settings for replaced originals */
+  quarantine: QuarantineConfig;
   /** Dry run mode - don't actually transcode */
   dryRun: boolean;
 }
@@ -154,14 +406,50 @@ export interface TranscodeJob {
   startTime?: Date;
   endTime?: Date;
   error?: string;
+  /** Times smaller jobs behind it were started first */
+  overtaken?: number;
+  /** Added with `queue add`; kept even when a scan doesn't find the file */
+  manual?: boolean;
 }
 
+/** Live progress of a running FFmpeg job, parsed from `-progress` output */
+export interface TranscodeProgress {
+  /** Frames encoded so far */
+  frame: number;
+  /** Current encoding frame rate */
+  fps: number;
+  /** Position in the output timeline (seconds) */
+  outTimeSeconds: number;
+  /** Encoding speed relative to realtime (e.g. 2.5 = 2.5x) */
+  speed: number;
+  /** Bytes written to the output so far */
+  totalSize?: number;
+  /** Percent complete (0-100), 0 when the source duration is unknown */
+  percent: number;
+  /** Estimated seconds remaining, undefined until speed is known */
+  etaSeconds?: number;
+  /** True once FFmpeg reports the final block */
+  done: boolean;
+}
+
+/** Callback receiving live progress for a transcode */
+export type TranscodeProgressCallback = (progress: TranscodeProgress) => void;
+
 /** Statistics for the transcoding run */
 export interface TranscodeStats {
   totalFiles: number;
   skipped: number;
   transcoded: number;
   failed: number;
+  interrupted: number;
+  /** Transcodes started, counted as they start so the file budget holds with several running */
+  started: number;
   spaceSaved: number;
+  /** Predicted savings of the transcodes still running, held against the savings budget */
+  pendingSavings: number;
   totalDuration: number;
+  /** Times the governor throttled the run */
+  throttleEvents: number;
+  /** Time spent throttled (seconds) */
+  throttledSeconds: number;
 }
@@ -0,0 +1,164 @@
+/**
+ * Verification module for danger-transcode
+ * Checks transcoded output against the source before the original is replaced
+ */
+
+import type { Config, MediaFile } from './types.ts';
+import { type ProbeResult, probeMediaFile } from './ffprobe.ts';
+import { getOutputContainer, planStreams, type StreamPlan } from './streams.ts';
+import { getLogger } from './logger.ts';
+import { getProcessRegistry } from '../shared/process.ts';
+
+const logger = getLogger().child('verify');
+
+/** Result of verifying a transcoded output file */
+export interface VerificationResult {
+  passed: boolean;
+  failures: string[];
+}
+
+/**
+ * Compare probe results of the source and the transcoded output
+ */
+export function compareProbeResults(
+  source: ProbeResult,
+  output: ProbeResult,
+  file: MediaFile,
+  config: Config,
+  plan: StreamPlan | null,
+): string[] {
+  const checks = config.verification;
+  const failures: string[] = [];
+
+  if (!output.video) {
+    failures.push('Output has no video stream');
+  }
+
+  // Truncated output is the most common hardware-encoder failure
+  const durationDelta = Math.abs(source.duration - output.duration);
+  if (source.duration > 0 && durationDelta > checks.durationToleranceSeconds) {
+    failures.push(
+      `Duration mismatch: source ${source.duration.toFixed(1)}s, output ${output.duration.toFixed(1)}s`,
+    );
+  }
+
+  if (checks.checkStreams) {
+    // The audio policy and the container may drop tracks on purpose
+    const expectedAudio = plan?.audio.length ?? source.audioStreamCount;
+    const expectedSubtitles = plan?.subtitles.length ?? source.subtitleStreamCount;
+    if (output.audioStreamCount !== expectedAudio) {
+      failures.push(
+        `Audio stream count mismatch: expected ${expectedAudio}, output ${output.audioStreamCount}`,
+      );
+    }
+    if (output.subtitleStreamCount !== expectedSubtitles) {
+      failures.push(
+        `Subtitle stream count mismatch: expected ${expectedSubtitles}, output ${output.subtitleStreamCount}`,
+      );
+    }
+  }
+
+  if (checks.checkResolution && output.video) {
+    const expectedWidth = file.targetWidth ?? file.width;
+    const expectedHeight = file.targetHeight ?? file.height;
+    if (output.video.width !== expectedWidth || output.video.height !== expectedHeight) {
+      failures.push(
+        `Resolution mismatch: expected ${expectedWidth}x${expectedHeight}, got ${output.video.width}x${output.video.height}`,
+      );
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * Decode short segments of the output to make sure the video stream is readable
+ * Returns a failure message per segment that could not be decoded
+ */
+async function runDecodeTest(
+  outputPath: string,
+  duration: number,
+  config: Config,
+): Promise<string[]> {
+  const failures: string[] = [];
+  const { decodeSegments, decodeSegmentSeconds } = config.verification;
+
+  for (let i = 0; i < decodeSegments; i++) {
+    // Evenly spaced segments, never starting at the very beginning or end
+    const start = duration > 0 ? (duration * (i + 1)) / (decodeSegments + 1) : 0;
+
+    const command = new Deno.Command(config.ffmpegPath, {
+      args: [
+        '-v',
+        'error',
+        '-ss',
+        start.toFixed(2),
+        '-i',
+        outputPath,
+        '-t',
+        String(decodeSegmentSeconds),
+        '-map',
+        '0:v:0',
+        '-f',
+        'null',
+        '-',
+      ],
+      stdin: 'null',
+      stdout: 'null',
+      stderr: 'piped',
+    });
+
+    const { code, stderr } = await getProcessRegistry().output(command, outputPath, 'verify');
+    if (code !== 0) {
+      const errorText = new TextDecoder().decode(stderr).trim();
+      failures.push(`Decode test failed at ${start.toFixed(0)}s: ${errorText || `exit code ${code}`}`);
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * Verify a transcoded output file before it replaces the original
+ */
+export async function verifyTranscodedOutput(
+  file: MediaFile,
+  outputPath: string,
+  config: Config,
+): Promise<VerificationResult> {
+  if (!config.verification.enabled) {
+    return { passed: true, failures: [] };
+  }
+
+  logger.debug(`Verifying output: ${outputPath}`);
+
+  const failures: string[] = [];
+
+  try {
+    const [source, output] = await Promise.all([
+      probeMediaFile(config, file.path),
+      probeMediaFile(config, outputPath),
+    ]);
+
+    const plan = planStreams(file, config, getOutputContainer(outputPath));
+    failures.push(...compareProbeResults(source, output, file, config, plan));
+
+    if (config.verification.decodeTest && failures.length === 0) {
+      failures.push(...await runDecodeTest(outputPath, output.duration, config));
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    failures.push(`Could not probe output: ${errorMessage}`);
+  }
+
+  if (failures.length > 0) {
+    logger.warn(`Verification failed for ${file.path}:`);
+    for (const failure of failures) {
+      logger.warn(`  ${failure}`);
+    }
+  } else {
+    logger.debug(`Verification passed: ${outputPath}`);
+  }
+
+  return { passed: failures.length === 0, failures };
+}
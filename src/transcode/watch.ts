@@ -0,0 +1,162 @@
+/**
+ * Watch module for danger-transcode
+ * Follows filesystem events in the media directories and hands over new files
+ * once they stop growing, so downloads aren't picked up half-written
+ */
+
+import type { Config, MediaFile, TranscodeDatabase } from './types.ts';
+import {
+  analyzeFile,
+  checkEncodeSavings,
+  checkExclusions,
+  type DiscoveredFile,
+  filterByDatabaseState,
+  isVideoFile,
+} from './scanner.ts';
+import { reconcileDatabase } from './fingerprint.ts';
+import { getPredictionCorrection } from './prediction.ts';
+import { getLogger } from './logger.ts';
+
+const logger = getLogger().child('watch');
+
+/** A changed file waiting for its size to settle */
+interface PendingFile {
+  size: number;
+  mtime: number;
+  /** When the size or mtime last changed (ms since epoch) */
+  changedAt: number;
+}
+
+/** Files seen in filesystem events, by path */
+export type PendingFiles = Map<string, PendingFile>;
+
+/**
+ * Check whether a path from a filesystem event is a file a scan would consider
+ */
+export function isWatchedPath(path: string, config: Config): boolean {
+  return isVideoFile(path, config) && !checkExclusions(path, config).excluded;
+}
+
+/**
+ * Watch the media directories, adding changed video files to `pending`
+ * Events are collected until the returned watcher is closed
+ */
+export async function watchMediaDirectories(
+  config: Config,
+  pending: PendingFiles,
+): Promise<Deno.FsWatcher> {
+  const dirs: string[] = [];
+  for (const dir of config.mediaDirs) {
+    try {
+      if ((await Deno.stat(dir)).isDirectory) {
+        dirs.push(dir);
+      }
+    } catch {
+      logger.warn(`Media directory not found, not watching: ${dir}`);
+    }
+  }
+
+  const watcher = Deno.watchFs(dirs, { recursive: true });
+  (async () => {
+    try {
+      for await (const event of watcher) {
+        if (event.kind !== 'create' && event.kind !== 'modify' && event.kind !== 'rename') {
+          continue;
+        }
+        for (const path of event.paths) {
+          if (!pending.has(path) && isWatchedPath(path, config)) {
+            logger.debug(`Change detected: ${path}`);
+            pending.set(path, { size: -1, mtime: -1, changedAt: Date.now() });
+          }
+        }
+      }
+    } catch (error) {
+      logger.warn('Filesystem watcher stopped', error);
+    }
+  })();
+
+  logger.info(`Watching ${dirs.length} media directories`);
+  return watcher;
+}
+
+/**
+ * Take the pending files whose size and mtime haven't changed for
+ * `stableSeconds`; files that disappeared (renamed away, deleted) are dropped
+ */
+export async function takeStableFiles(
+  pending: PendingFiles,
+  stableSeconds: number,
+): Promise<DiscoveredFile[]> {
+  const now = Date.now();
+  const stable: DiscoveredFile[] = [];
+
+  for (const [path, entry] of pending) {
+    let stat: Deno.FileInfo;
+    try {
+      stat = await Deno.stat(path);
+    } catch {
+      pending.delete(path);
+      continue;
+    }
+    if (!stat.isFile) {
+      pending.delete(path);
+      continue;
+    }
+
+    const mtime = stat.mtime?.getTime() ?? 0;
+    if (stat.size !== entry.size || mtime !== entry.mtime) {
+      entry.size = stat.size;
+      entry.mtime = mtime;
+      entry.changedAt = now;
+      continue;
+    }
+    if (now - entry.changedAt >= stableSeconds * 1000) {
+      pending.delete(path);
+      stable.push({ path, size: stat.size, mtime });
+    }
+  }
+
+  return stable;
+}
+
+/**
+ * Decide whether a settled file needs transcoding, as a full scan would
+ * Returns the file to queue, or null when it is skipped
+ */
+export async function analyzeSettledFile(
+  file: DiscoveredFile,
+  config: Config,
+  db: TranscodeDatabase,
+): Promise<MediaFile | null> {
+  // Follows renames of transcoded files, so moving them doesn't queue them again
+  await reconcileDatabase([file], db);
+
+  const { toAnalyze } = filterByDatabaseState([file], db);
+  if (toAnalyze.length === 0) {
+    logger.debug(`Already handled: ${file.path}`);
+    return null;
+  }
+
+  const analysis = await analyzeFile(file.path, config);
+  if (!analysis.file) {
+    return null;
+  }
+  analysis.file.mtime = file.mtime;
+  if (!analysis.file.needsTranscode) {
+    logger.info(`Skipping ${file.path}: ${analysis.file.skipReason ?? 'no transcode needed'}`);
+    return null;
+  }
+
+  const skipReason = await checkEncodeSavings(
+    analysis.file,
+    config,
+    db,
+    getPredictionCorrection(db),
+  );
+  if (skipReason) {
+    logger.info(`Skipping ${file.path}: ${skipReason}`);
+    return null;
+  }
+
+  return analysis.file;
+}